@@ -1,36 +1,180 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { ResultsDisplay } from './components/ResultsDisplay';
 import { LoadingOverlay } from './components/LoadingOverlay';
-import { GeneratedContent, GeneratedImage } from './types';
-import { generateVariationsFromSpecSheet, editImageWithGemini, regenerateImageFromSource } from './services/geminiService';
-import { HeaderIcon } from './components/icons';
+import { ProjectList } from './components/ProjectList';
+import { SpecSheetReview } from './components/SpecSheetReview';
+import { ShotTemplateSettings } from './components/ShotTemplateSettings';
+import { BrandProfileSettings } from './components/BrandProfileSettings';
+import { ShotListBuilder } from './components/ShotListBuilder';
+import { BatchQueue } from './components/BatchQueue';
+import { UsagePanel } from './components/UsagePanel';
+import { AspectRatioSelection, CreativeStyle, GeneratedContent, BrandProfileLibrary, GeneratedImage, Locale, ParsedSpecSheet, PhotoshootProject, PricingSettings, ProductDetails, QualitySettings, ShotCounts, ShotTemplateLibrary, UsageContext, VariationCopy } from './types';
+import { analyzeSpecSheet, generateAltText, generateVariationCopy, generateVariationsFromSpecSheet, editImageWithGemini, regenerateImageFromSource, rewriteProductField, translateProductDetails, withAltText } from './services/geminiService';
+import { loadProject, saveProject } from './services/projectStore';
+import { describeError } from './services/geminiRequest';
+import { generateWithQualityGate, loadQualitySettings, saveQualitySettings, withQualityReport } from './services/qualityGate';
+import { HeaderIcon, FolderIcon } from './components/icons';
+import { DEFAULT_CREATIVE_STYLES } from './utils/creativeStyles';
+import { DEFAULT_ASPECT_RATIOS } from './utils/imageUtils';
+import { addImageVersion, restoreImageVersion } from './utils/imageVersions';
+import { savePricingDefaults } from './utils/pricing';
+import { getBrandProfile, loadBrandProfiles, saveBrandProfiles } from './utils/brandProfiles';
+import { LocaleSettings, SOURCE_LOCALE, getLocalizedDetails, loadLocaleSettings, saveLocaleSettings } from './utils/locales';
+import { buildDefaultShotList, loadShotTemplates } from './utils/shotTemplates';
+import { createCutout } from './utils/cutout';
+
+type ProjectMeta = Pick<PhotoshootProject, 'id' | 'name' | 'createdAt'>;
+
+// Delay before persisting so bursts of state updates are written once
+const AUTOSAVE_DELAY_MS = 500;
+
+// Shots still queued or generating when a project was saved belong to a run that no longer exists,
+// so they are shown as failed and can be retried.
+const markInterruptedImages = (content: GeneratedContent): GeneratedContent => ({
+  ...content,
+  variationResults: content.variationResults.map(result => ({
+    ...result,
+    images: result.images.map(image => image.status === 'pending' || image.status === 'generating'
+      ? { ...image, status: 'error', error: 'Interrupted before the image was finished.' }
+      : image),
+  })),
+});
 
 const App: React.FC = () => {
+  const [view, setView] = useState<'editor' | 'projects' | 'templates' | 'brands' | 'batch' | 'usage'>('editor');
+  const [currentProject, setCurrentProject] = useState<ProjectMeta | null>(null);
   const [sourceImages, setSourceImages] = useState<File[]>([]);
   const [userInstructions, setUserInstructions] = useState<string>('');
+  const [creativeStyles, setCreativeStyles] = useState<CreativeStyle[]>(DEFAULT_CREATIVE_STYLES);
+  const [aspectRatios, setAspectRatios] = useState<AspectRatioSelection>(DEFAULT_ASPECT_RATIOS);
+  const [qualitySettings, setQualitySettings] = useState<QualitySettings>(loadQualitySettings);
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(loadLocaleSettings);
+  const [brandLibrary, setBrandLibrary] = useState<BrandProfileLibrary>(loadBrandProfiles);
+  const [specSheetDraft, setSpecSheetDraft] = useState<ParsedSpecSheet | null>(null);
+  // Set once the spec sheet is confirmed; templates are captured so the list and the run agree
+  const [shotList, setShotList] = useState<ShotCounts[] | null>(null);
+  const [shotTemplates, setShotTemplates] = useState<ShotTemplateLibrary>(loadShotTemplates);
+  // Ids for the photoshoot being prepared, so analysis and generation are logged to the same project and run
+  const [runUsage, setRunUsage] = useState<UsageContext | null>(null);
   const [generatedContent, setGeneratedContent] = useState<GeneratedContent | null>(null);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [generatingMessage, setGeneratingMessage] = useState<string>('');
   const [editingImageId, setEditingImageId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  const handleGenerate = async () => {
+  // Autosave: every generate, edit and regenerate ends in a new generatedContent.
+  useEffect(() => {
+    if (!currentProject || !generatedContent) return;
+
+    const timeout = setTimeout(() => {
+      saveProject({
+        ...currentProject,
+        updatedAt: Date.now(),
+        sourceImages,
+        userInstructions,
+        settings: { creativeStyles, aspectRatios },
+        content: generatedContent,
+      }).catch(err => {
+        console.error(err);
+        setError('Autosave failed. Your latest changes are not stored yet.');
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+    // Only content changes trigger a save; the other fields are saved alongside it.
+  }, [generatedContent, currentProject]);
+
+  // Functional update so concurrent edits on different cards don't overwrite each other.
+  const updateImage = useCallback((variationId: string, imageId: string, update: (image: GeneratedImage) => GeneratedImage) => {
+    setGeneratedContent(prev => {
+      if (!prev) return prev;
+      const updatedResults = prev.variationResults.map(result => {
+        if (result.id !== variationId) return result;
+        return { ...result, images: result.images.map(img => img.id === imageId ? update(img) : img) };
+      });
+      return { ...prev, variationResults: updatedResults };
+    });
+  }, []);
+
+  // Step 1: read the spec sheet so the user can correct it before paying for images.
+  const handleAnalyze = async () => {
     if (sourceImages.length === 0) {
       setError('Please upload a product specification sheet.');
       return;
     }
 
+    setIsGenerating(true);
+    setGeneratingMessage('Analyzing images for product details...');
+    setError(null);
+
+    const usage = { projectId: crypto.randomUUID(), runId: crypto.randomUUID() };
+    setRunUsage(usage);
+
+    try {
+      setSpecSheetDraft(await analyzeSpecSheet(sourceImages, usage));
+    } catch (err) {
+      console.error(err);
+      const errorMessage = describeError(err, 'An unknown error occurred while analyzing the spec sheet.');
+      setError(`Analysis failed: ${errorMessage}`);
+    } finally {
+      setIsGenerating(false);
+      setGeneratingMessage('');
+    }
+  };
+
+  // Step 2: pick the shots for each variation of the reviewed spec sheet.
+  const handleConfirmSpecSheet = () => {
+    if (!specSheetDraft) return;
+    const library = loadShotTemplates();
+    setShotTemplates(library);
+    setShotList(buildDefaultShotList(library.templates, specSheetDraft.variations.length));
+  };
+
+  // Step 3: generate everything from the reviewed spec sheet and shot list.
+  const handleGenerate = async () => {
+    if (sourceImages.length === 0 || !specSheetDraft) {
+      setError('Please upload a product specification sheet.');
+      return;
+    }
+
     setIsGenerating(true);
     setError(null);
     setGeneratedContent(null);
+    const usage = runUsage ?? { projectId: crypto.randomUUID(), runId: crypto.randomUUID() };
 
     try {
-      const content = await generateVariationsFromSpecSheet(sourceImages, userInstructions, setGeneratingMessage);
-      setGeneratedContent(content);
+      const content = await generateVariationsFromSpecSheet(
+        sourceImages,
+        specSheetDraft,
+        userInstructions,
+        { creativeStyles, aspectRatios, shotTemplates, shotList: shotList ?? undefined, quality: qualitySettings, targetLocales: localeSettings.targetLocales, usage },
+        {
+          onMessage: setGeneratingMessage,
+          // Switch to the results screen as soon as the shot list exists; images stream in.
+          onContentReady: (plannedContent) => {
+            setGeneratedContent(plannedContent);
+            setCurrentProject({
+              id: usage.projectId,
+              name: plannedContent.baseDetails.names[0] || plannedContent.specSheet.productName || 'Untitled Photoshoot',
+              createdAt: Date.now(),
+            });
+            setSpecSheetDraft(null);
+            setShotList(null);
+            setRunUsage(null);
+            setIsGenerating(false);
+          },
+          onImageUpdate: (variationId, image) => updateImage(variationId, image.id, () => image),
+        }
+      );
+
+      const failedCount = content.variationResults.reduce((count, result) => count + result.images.filter(img => img.status === 'error').length, 0);
+      if (failedCount > 0) {
+        setError(`${failedCount} image${failedCount === 1 ? '' : 's'} failed to generate. Use Retry on the affected cards.`);
+      }
     } catch (err) {
       console.error(err);
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during generation.';
+      const errorMessage = describeError(err, 'An unknown error occurred during generation.');
       setError(`Generation failed: ${errorMessage}`);
     } finally {
       setIsGenerating(false);
@@ -38,6 +182,16 @@ const App: React.FC = () => {
     }
   };
 
+  // A new version needs new alt text; failures only log, and the card offers to try again.
+  const describeNewVersion = useCallback((base64: string, variation: Record<string, string>) => {
+    if (!generatedContent) return Promise.resolve(undefined);
+    const productName = generatedContent.baseDetails.names[0] || generatedContent.specSheet.productName;
+    return generateAltText(base64, productName, variation, { projectId: currentProject?.id }).catch(err => {
+      console.warn('Could not write alt text', err);
+      return undefined;
+    });
+  }, [generatedContent, currentProject]);
+
   const handleRegenerateImage = useCallback(async (variationId: string, imageToRegen: GeneratedImage, newPrompt?: string) => {
       if (!generatedContent || sourceImages.length === 0) return;
 
@@ -54,30 +208,35 @@ const App: React.FC = () => {
               ? `${imageToRegen.sourcePrompt}. Additional instruction for this regeneration: "${newPrompt}"`
               : imageToRegen.sourcePrompt;
 
-          const newBase64 = await regenerateImageFromSource(sourceImages, finalPrompt);
+          const { base64: newBase64, quality } = await generateWithQualityGate(
+              () => regenerateImageFromSource(sourceImages, finalPrompt, imageToRegen.sourceAspectRatio, { projectId: currentProject?.id }),
+              imageToRegen.category,
+              sourceImages,
+              qualitySettings,
+              undefined,
+              { projectId: currentProject?.id },
+          );
 
-          const updatedResults = generatedContent.variationResults.map(result => {
-              if (result.id === variationId) {
-                  const updatedImages = result.images.map(img => 
-                      img.id === imageToRegen.id ? { ...img, base64: newBase64, sourcePrompt: finalPrompt } : img
-                  );
-                  return { ...result, images: updatedImages };
-              }
-              return result;
-          });
+          const altText = await describeNewVersion(newBase64, variation);
 
-          setGeneratedContent({ ...generatedContent, variationResults: updatedResults });
+          // A failed shot has no versions yet, so its first successful result counts as the original generation.
+          updateImage(variationId, imageToRegen.id, img => withAltText(withQualityReport(addImageVersion(img, newBase64, finalPrompt, img.versions.length > 0 ? 'regenerate' : 'generate'), quality), altText));
 
       } catch (err) {
           console.error(err);
-          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during regeneration.';
+          const errorMessage = describeError(err, 'An unknown error occurred during regeneration.');
+          if (imageToRegen.versions.length === 0) {
+              updateImage(variationId, imageToRegen.id, img => ({ ...img, status: 'error', error: errorMessage }));
+          }
           setError(`Regeneration failed for "${imageToRegen.title}": ${errorMessage}`);
       } finally {
           setEditingImageId(null);
       }
-  }, [generatedContent, sourceImages]);
+  }, [generatedContent, currentProject, sourceImages, qualitySettings, updateImage, describeNewVersion]);
 
-  const handleEditImage = useCallback(async (variationId: string, imageId: string, prompt: string) => {
+  // Edits apply to `baseVersionId` when given, which branches a new version off an older one.
+  // With a mask, only the painted region of that version changes.
+  const handleEditImage = useCallback(async (variationId: string, imageId: string, prompt: string, baseVersionId?: string, mask?: string) => {
     if (!generatedContent) return;
     
     const variationResult = generatedContent.variationResults.find(vr => vr.id === variationId);
@@ -85,43 +244,222 @@ const App: React.FC = () => {
 
     if (!imageToEdit) return;
 
+    const baseVersion = imageToEdit.versions.find(v => v.id === (baseVersionId ?? imageToEdit.currentVersionId));
+    if (!baseVersion) return;
+
     setEditingImageId(imageId);
     setError(null);
 
     try {
-       const newBase64 = await editImageWithGemini(
-         [`data:image/png;base64,${imageToEdit.base64}`],
-         prompt
+       // Edits are checked but never retried automatically; the user decides what to change next.
+       const { base64: newBase64, quality } = await generateWithQualityGate(
+         () => editImageWithGemini(
+           [`data:image/png;base64,${baseVersion.base64}`],
+           prompt,
+           imageToEdit.sourceAspectRatio,
+           mask,
+           { projectId: currentProject?.id }
+         ),
+         imageToEdit.category,
+         sourceImages,
+         { ...qualitySettings, maxAutoRetries: 0 },
+         undefined,
+         { projectId: currentProject?.id }
        );
 
-      const updatedResults = generatedContent.variationResults.map(result => {
-        if (result.id === variationId) {
-          const updatedImages = result.images.map(img => 
-            img.id === imageId ? { ...img, base64: newBase64, sourcePrompt: prompt } : img
-          );
-          return { ...result, images: updatedImages };
-        }
-        return result;
-      });
-
-      setGeneratedContent({ ...generatedContent, variationResults: updatedResults });
+      const altText = await describeNewVersion(newBase64, variationResult.variation);
+      updateImage(variationId, imageId, img => withAltText(withQualityReport(addImageVersion(img, newBase64, prompt, 'edit', baseVersion.id), quality), altText));
 
     } catch (err) {
       console.error(err);
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during edit.';
+      const errorMessage = describeError(err, 'An unknown error occurred during edit.');
       setError(`Image edit failed for "${imageToEdit.title}": ${errorMessage}`);
     } finally {
       setEditingImageId(null);
     }
-  }, [generatedContent]);
+  }, [generatedContent, currentProject, sourceImages, qualitySettings, updateImage, describeNewVersion]);
+
+  const handleRestoreVersion = useCallback((variationId: string, imageId: string, versionId: string) => {
+    updateImage(variationId, imageId, img => restoreImageVersion(img, versionId));
+  }, [updateImage]);
+
+  // Cutouts are computed in the browser from the studio shot's white background.
+  const handleCreateCutout = useCallback(async (variationId: string, image: GeneratedImage, withShadow: boolean) => {
+    try {
+      const base64 = await createCutout(image.base64, withShadow);
+      updateImage(variationId, image.id, img => ({ ...img, cutout: { base64, withShadow, sourceVersionId: image.currentVersionId } }));
+    } catch (err) {
+      console.error(err);
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not create a cutout for "${image.title}": ${errorMessage}`);
+    }
+  }, [updateImage]);
+
+  // For images without alt text for their current version, e.g. from projects saved before it existed.
+  const handleWriteAltText = useCallback(async (variationId: string, image: GeneratedImage) => {
+    const variation = generatedContent?.variationResults.find(v => v.id === variationId)?.variation;
+    if (!generatedContent || !variation) return;
+    try {
+      const productName = generatedContent.baseDetails.names[0] || generatedContent.specSheet.productName;
+      const text = await generateAltText(image.base64, productName, variation, { projectId: currentProject?.id });
+      // Skip it if another version became current in the meantime
+      updateImage(variationId, image.id, img => img.currentVersionId === image.currentVersionId ? withAltText(img, text) : img);
+    } catch (err) {
+      console.error(err);
+      setError(`Could not write alt text for "${image.title}": ${describeError(err, 'An unknown error occurred.')}`);
+    }
+  }, [generatedContent, currentProject, updateImage]);
+
+  const handleRemoveCutout = useCallback((variationId: string, imageId: string) => {
+    updateImage(variationId, imageId, img => ({ ...img, cutout: undefined }));
+  }, [updateImage]);
+
+  // Translations are edited in place like the source copy; they are not re-derived from it.
+  const handleUpdateDetails = useCallback((details: ProductDetails, locale: Locale) => {
+    setGeneratedContent(prev => {
+      if (!prev) return prev;
+      return locale === SOURCE_LOCALE
+        ? { ...prev, baseDetails: details }
+        : { ...prev, translations: { ...prev.translations, [locale]: details } };
+    });
+  }, []);
+
+  const handleRewriteField = useCallback(async (field: keyof ProductDetails, instruction: string, locale: Locale) => {
+    if (!generatedContent) return;
+    setError(null);
+    try {
+      const details = getLocalizedDetails(generatedContent, locale);
+      const brand = getBrandProfile(generatedContent.brandProfileId);
+      const value = await rewriteProductField(field, details, instruction, locale, brand, { projectId: currentProject?.id });
+      handleUpdateDetails({ ...details, [field]: value }, locale);
+    } catch (err) {
+      console.error(err);
+      const errorMessage = describeError(err, 'An unknown error occurred during rewrite.');
+      setError(`Rewrite failed for "${field}": ${errorMessage}`);
+    }
+  }, [generatedContent, currentProject, handleUpdateDetails]);
+
+  // (Re)translates the current source copy, replacing any edits made to that market's copy.
+  const handleTranslate = useCallback(async (locale: Locale) => {
+    if (!generatedContent) return;
+    setError(null);
+    try {
+      const details = await translateProductDetails(generatedContent.baseDetails, locale, { projectId: currentProject?.id });
+      handleUpdateDetails(details, locale);
+    } catch (err) {
+      console.error(err);
+      const errorMessage = describeError(err, 'An unknown error occurred during translation.');
+      setError(`Translation failed for ${locale}: ${errorMessage}`);
+    }
+  }, [generatedContent, currentProject, handleUpdateDetails]);
+
+  const handleUpdateVariationCopy = useCallback((variationId: string, copy: VariationCopy) => {
+    setGeneratedContent(prev => prev ? {
+      ...prev,
+      variationResults: prev.variationResults.map(result => result.id === variationId ? { ...result, copy } : result),
+    } : prev);
+  }, []);
+
+  // Without a field, writes both fields, e.g. for projects saved before variation copy existed.
+  // With one, only that field is replaced so edits to the other are kept.
+  const handleWriteVariationCopy = useCallback(async (variationId: string, field?: keyof VariationCopy, instruction?: string) => {
+    const result = generatedContent?.variationResults.find(v => v.id === variationId);
+    if (!generatedContent || !result) return;
+    setError(null);
+    try {
+      const brand = getBrandProfile(generatedContent.brandProfileId);
+      const [copy] = await generateVariationCopy(
+        generatedContent.baseDetails,
+        [{ attributes: result.variation, dimensions: result.dimensions, weight: result.weight }],
+        brand,
+        instruction,
+        { projectId: currentProject?.id },
+      );
+      if (!copy) {
+        throw new Error('The model returned no copy for this variation.');
+      }
+      handleUpdateVariationCopy(variationId, field && result.copy ? { ...result.copy, [field]: copy[field] } : copy);
+    } catch (err) {
+      console.error(err);
+      const errorMessage = describeError(err, 'An unknown error occurred while writing the variation copy.');
+      setError(`Could not write copy for the variation: ${errorMessage}`);
+    }
+  }, [generatedContent, currentProject, handleUpdateVariationCopy]);
+
+  // The rules also become the defaults for the next project; the cost stays with this one.
+  const handleUpdatePricing = useCallback((pricing: PricingSettings) => {
+    setGeneratedContent(prev => prev ? { ...prev, pricing } : prev);
+    savePricingDefaults(pricing);
+  }, []);
+
+  const handleLocaleSettingsChange = (settings: LocaleSettings) => {
+    setLocaleSettings(settings);
+    saveLocaleSettings(settings);
+  };
+
+  // New photoshoots and batch jobs use the active brand; open projects keep the brand they were made with.
+  const handleActiveBrandChange = (activeProfileId: string) => {
+    const next = { ...brandLibrary, activeProfileId };
+    setBrandLibrary(next);
+    saveBrandProfiles(next);
+  };
+
+  const handleQualitySettingsChange = (settings: QualitySettings) => {
+    setQualitySettings(settings);
+    saveQualitySettings(settings);
+  };
 
   const handleReset = () => {
+    setCurrentProject(null);
+    setView('editor');
     setSourceImages([]);
     setUserInstructions('');
+    setSpecSheetDraft(null);
+    setShotList(null);
+    setRunUsage(null);
+    setCreativeStyles(DEFAULT_CREATIVE_STYLES);
+    setAspectRatios(DEFAULT_ASPECT_RATIOS);
     setGeneratedContent(null);
     setError(null);
   }
 
+  const handleOpenProject = async (projectId: string) => {
+    try {
+      const project = await loadProject(projectId);
+      if (!project) {
+        throw new Error('Project not found.');
+      }
+      setSourceImages(project.sourceImages);
+      setUserInstructions(project.userInstructions);
+      setCreativeStyles(project.settings.creativeStyles.length > 0 ? project.settings.creativeStyles : DEFAULT_CREATIVE_STYLES);
+      setAspectRatios(project.settings.aspectRatios ?? DEFAULT_ASPECT_RATIOS);
+      setGeneratedContent(project.content && markInterruptedImages(project.content));
+      setSpecSheetDraft(null);
+      setShotList(null);
+      setRunUsage(null);
+      setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+      setError(null);
+      setView('editor');
+    } catch (err) {
+      console.error(err);
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Could not open project: ${errorMessage}`);
+    }
+  };
+
+  const handleProjectRenamed = (projectId: string, name: string) => {
+    setCurrentProject(prev => prev && prev.id === projectId ? { ...prev, name } : prev);
+  };
+
+  // The deleted project's content would otherwise be saved again by the next autosave.
+  const handleProjectDeleted = (projectId: string) => {
+    if (currentProject?.id !== projectId) return;
+    handleReset();
+    setView('projects');
+  };
+
+  const handleProjectListError = useCallback((message: string) => setError(message), []);
+
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-800">
       {isGenerating && <LoadingOverlay message={generatingMessage} />}
@@ -132,20 +470,128 @@ const App: React.FC = () => {
               <HeaderIcon />
               <h1 className="text-xl font-bold text-gray-900 tracking-tight">AI Furniture Photoshoot</h1>
             </div>
-             {generatedContent && (
-                <button
-                onClick={handleReset}
-                className="text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
-                >
-                Start New
-                </button>
-            )}
+            <div className="flex items-center gap-6">
+              {currentProject && view === 'editor' && (
+                <span className="hidden sm:inline text-sm text-gray-500 truncate max-w-xs" title={currentProject.name}>{currentProject.name}</span>
+              )}
+              <select
+                value={brandLibrary.activeProfileId}
+                onChange={(e) => handleActiveBrandChange(e.target.value)}
+                className="text-sm text-gray-600 border border-gray-300 rounded-md px-2 py-1 bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                aria-label="Brand for new photoshoots"
+                title="Brand for new photoshoots"
+              >
+                {brandLibrary.profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setView('projects')}
+                className="inline-flex items-center text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                <FolderIcon />
+                Projects
+              </button>
+              <button
+                onClick={() => setView('batch')}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Batch
+              </button>
+              <button
+                onClick={() => setView('usage')}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Usage
+              </button>
+              <button
+                onClick={() => setView('brands')}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Brands
+              </button>
+              <button
+                onClick={() => setView('templates')}
+                className="text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Shot Templates
+              </button>
+              {generatedContent && (
+                  <button
+                  onClick={handleReset}
+                  className="text-sm font-medium text-indigo-600 hover:text-indigo-500 transition-colors"
+                  >
+                  Start New
+                  </button>
+              )}
+            </div>
           </div>
         </div>
       </header>
 
       <main className="container mx-auto p-4 sm:p-6 lg:p-8">
-        {!generatedContent ? (
+        {/* Kept mounted while hidden so queued jobs keep running when the user opens a finished project */}
+        <div className={view === 'batch' ? '' : 'hidden'}>
+          <BatchQueue
+            creativeStyles={creativeStyles}
+            aspectRatios={aspectRatios}
+            qualitySettings={qualitySettings}
+            targetLocales={localeSettings.targetLocales}
+            onOpenProject={handleOpenProject}
+            onError={handleProjectListError}
+          />
+        </div>
+        {view === 'batch' ? null : view === 'projects' ? (
+          <ProjectList
+            onOpenProject={handleOpenProject}
+            onNewProject={handleReset}
+            onProjectRenamed={handleProjectRenamed}
+            onProjectDeleted={handleProjectDeleted}
+            onError={handleProjectListError}
+          />
+        ) : view === 'usage' ? (
+          <UsagePanel onClose={() => setView('editor')} />
+        ) : view === 'brands' ? (
+          <BrandProfileSettings
+            onClose={() => {
+              setBrandLibrary(loadBrandProfiles());
+              setView('editor');
+            }}
+          />
+        ) : view === 'templates' ? (
+          <ShotTemplateSettings onClose={() => setView('editor')} />
+        ) : !generatedContent && specSheetDraft && shotList ? (
+          <div className="max-w-6xl mx-auto">
+            <h2 className="text-2xl font-bold text-center mb-2">Build the Shot List</h2>
+            <p className="text-gray-600 text-center mb-6">Choose which shots to produce for each variation. Nothing is generated until you start.</p>
+            <ShotListBuilder
+              specSheet={specSheetDraft}
+              templates={shotTemplates.templates}
+              shotList={shotList}
+              setShotList={setShotList}
+              styleCount={creativeStyles.length}
+              aspectRatios={aspectRatios}
+              sourceImageCount={sourceImages.length}
+              visionReview={qualitySettings.enabled && qualitySettings.visionCheck}
+              targetLocales={localeSettings.targetLocales}
+              onConfirm={handleGenerate}
+              onBack={() => setShotList(null)}
+              isGenerating={isGenerating}
+            />
+          </div>
+        ) : !generatedContent && specSheetDraft ? (
+          <div className="max-w-5xl mx-auto">
+            <h2 className="text-2xl font-bold text-center mb-2">Review Product Data</h2>
+            <p className="text-gray-600 text-center mb-6">Fix any misread names, colors or dimensions, then choose the shots.</p>
+            <SpecSheetReview
+              specSheet={specSheetDraft}
+              setSpecSheet={setSpecSheetDraft}
+              onConfirm={handleConfirmSpecSheet}
+              onBack={() => setSpecSheetDraft(null)}
+              isGenerating={isGenerating}
+            />
+          </div>
+        ) : !generatedContent ? (
           <div className="max-w-4xl mx-auto">
             <h2 className="text-2xl font-bold text-center mb-2">Create a New Photoshoot</h2>
             <p className="text-gray-600 text-center mb-6">Upload a product spec sheet and reference images. Add instructions to guide the style.</p>
@@ -154,7 +600,15 @@ const App: React.FC = () => {
               setSourceImages={setSourceImages}
               userInstructions={userInstructions}
               setUserInstructions={setUserInstructions}
-              onGenerate={handleGenerate}
+              creativeStyles={creativeStyles}
+              setCreativeStyles={setCreativeStyles}
+              aspectRatios={aspectRatios}
+              setAspectRatios={setAspectRatios}
+              qualitySettings={qualitySettings}
+              setQualitySettings={handleQualitySettingsChange}
+              localeSettings={localeSettings}
+              setLocaleSettings={handleLocaleSettingsChange}
+              onAnalyze={handleAnalyze}
               isGenerating={isGenerating}
             />
           </div>
@@ -163,6 +617,16 @@ const App: React.FC = () => {
             content={generatedContent}
             onEditImage={handleEditImage}
             onRegenerateImage={handleRegenerateImage}
+            onRestoreVersion={handleRestoreVersion}
+            onCreateCutout={handleCreateCutout}
+            onRemoveCutout={handleRemoveCutout}
+            onWriteAltText={handleWriteAltText}
+            onUpdateDetails={handleUpdateDetails}
+            onRewriteField={handleRewriteField}
+            onTranslate={handleTranslate}
+            onUpdatePricing={handleUpdatePricing}
+            onUpdateVariationCopy={handleUpdateVariationCopy}
+            onWriteVariationCopy={handleWriteVariationCopy}
             editingImageId={editingImageId}
           />
         )}
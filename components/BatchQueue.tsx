@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AspectRatioSelection, BatchGrouping, BatchJob, BatchJobStatus, CreativeStyle, Locale, QualitySettings } from '../types';
+import { runBatchJob } from '../services/batchRunner';
+import { loadProject } from '../services/projectStore';
+import { describeError } from '../services/geminiRequest';
+import { groupFiles } from '../utils/batchGrouping';
+import { getBrandProfile } from '../utils/brandProfiles';
+import { loadDerivativeSettings } from '../utils/derivatives';
+import { EXPORTERS, ExportFormat, buildCombinedCsv, loadExportFormat, saveExportFormat } from '../utils/exporters';
+import { downloadCsv, getProductHandle } from '../utils/exporters/csv';
+import { loadSetting, saveSetting } from '../utils/settingsStorage';
+
+const BATCH_IMAGE_BASE_URL_SETTING = 'batchImageBaseUrl';
+const MAX_CONCURRENCY = 3;
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  analyzing: 'bg-blue-100 text-blue-700',
+  generating: 'bg-indigo-100 text-indigo-700',
+  done: 'bg-green-100 text-green-700',
+  error: 'bg-red-100 text-red-700',
+};
+
+const STATUS_LABELS: Record<BatchJobStatus, string> = {
+  queued: 'Queued',
+  analyzing: 'Reading spec sheet',
+  generating: 'Generating',
+  done: 'Done',
+  error: 'Failed',
+};
+
+const isRunning = (job: BatchJob) => job.status === 'analyzing' || job.status === 'generating';
+
+interface BatchQueueProps {
+  creativeStyles: CreativeStyle[];
+  aspectRatios: AspectRatioSelection;
+  qualitySettings: QualitySettings;
+  targetLocales: Locale[];
+  onOpenProject: (projectId: string) => void;
+  onError: (message: string) => void;
+}
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ creativeStyles, aspectRatios, qualitySettings, targetLocales, onOpenProject, onError }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [grouping, setGrouping] = useState<BatchGrouping>('folder');
+  const [userInstructions, setUserInstructions] = useState('');
+  const [concurrency, setConcurrency] = useState(1);
+  const [isActive, setIsActive] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(loadExportFormat);
+  const [imageBaseUrl, setImageBaseUrl] = useState<string>(() => loadSetting(BATCH_IMAGE_BASE_URL_SETTING, ''));
+  const [isExporting, setIsExporting] = useState(false);
+  // Ids of jobs handed to the runner, so a re-run effect (e.g. StrictMode) can't start one twice
+  const startedJobIds = useRef(new Set<string>());
+
+  const updateJob = useCallback((id: string, changes: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+  }, []);
+
+  const startJob = useCallback(async (job: BatchJob) => {
+    if (startedJobIds.current.has(job.id)) return;
+    startedJobIds.current.add(job.id);
+    updateJob(job.id, { status: 'analyzing', progress: undefined, error: undefined });
+    try {
+      const result = await runBatchJob(
+        job,
+        { userInstructions, creativeStyles, aspectRatios, quality: qualitySettings, targetLocales },
+        (status, progress) => updateJob(job.id, { status, progress }),
+      );
+      updateJob(job.id, { status: 'done', progress: undefined, ...result });
+    } catch (err) {
+      console.error(`Batch job "${job.name}" failed:`, err);
+      updateJob(job.id, { status: 'error', progress: undefined, error: describeError(err, 'An unknown error occurred.') });
+    } finally {
+      startedJobIds.current.delete(job.id);
+    }
+  }, [updateJob, userInstructions, creativeStyles, aspectRatios, qualitySettings, targetLocales]);
+
+  // Scheduler: whenever a slot frees up, start the next queued job. Pausing only stops new starts.
+  useEffect(() => {
+    if (!isActive) return;
+    const freeSlots = concurrency - jobs.filter(isRunning).length;
+    jobs.filter(job => job.status === 'queued').slice(0, Math.max(0, freeSlots)).forEach(startJob);
+  }, [jobs, isActive, concurrency, startJob]);
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    const groups = groupFiles(Array.from(fileList), grouping);
+    if (groups.length === 0) {
+      onError('No PNG, JPEG or WebP images found in the selection.');
+      return;
+    }
+    setJobs(prev => [
+      ...prev,
+      ...groups.map(group => ({ id: crypto.randomUUID(), name: group.name, files: group.files, status: 'queued' as const })),
+    ]);
+  };
+
+  const handleRetry = (id: string) => updateJob(id, { status: 'queued', error: undefined, failedImages: undefined });
+
+  const handleRemove = (id: string) => setJobs(prev => prev.filter(job => job.id !== id || isRunning(job)));
+
+  const handleClearFinished = () => setJobs(prev => prev.filter(job => job.status !== 'done'));
+
+  const handleExportFormatChange = (format: ExportFormat) => {
+    setExportFormat(format);
+    saveExportFormat(format);
+  };
+
+  const handleImageBaseUrlChange = (value: string) => {
+    setImageBaseUrl(value);
+    saveSetting(BATCH_IMAGE_BASE_URL_SETTING, value);
+  };
+
+  // Finished products are read back from the project store, so the queue doesn't hold every image in memory.
+  const handleCombinedExport = async () => {
+    setIsExporting(true);
+    try {
+      const { linkTo } = loadDerivativeSettings();
+      const baseUrl = imageBaseUrl.trim().replace(/\/+$/, '');
+      const products = [];
+      for (const job of jobs.filter(job => job.status === 'done' && job.projectId)) {
+        const project = await loadProject(job.projectId!);
+        if (!project?.content) continue;
+        products.push({
+          content: project.content,
+          // Each product's ZIP is expected in its own folder named after its handle.
+          options: { imageBaseUrl: baseUrl ? `${baseUrl}/${getProductHandle(project.content)}` : undefined, imageDerivative: linkTo, vendor: getBrandProfile(project.content.brandProfileId).vendor },
+        });
+      }
+      const date = new Date().toISOString().slice(0, 10);
+      downloadCsv(buildCombinedCsv(exportFormat, products), `batch-${date}-${EXPORTERS[exportFormat].fileSuffix}.csv`);
+    } catch (err) {
+      console.error(err);
+      onError('Could not build the combined CSV.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const doneCount = jobs.filter(job => job.status === 'done').length;
+  const runningCount = jobs.filter(isRunning).length;
+  const queuedCount = jobs.filter(job => job.status === 'queued').length;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Batch Mode</h2>
+        <p className="text-gray-600 mt-1">Queue many products and let them run unattended. Each product uses the default shot list and is saved to Projects when it finishes.</p>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Group files by
+            <select
+              value={grouping}
+              onChange={(e) => setGrouping(e.target.value as BatchGrouping)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="folder">Folder (one folder per product)</option>
+              <option value="prefix">Filename prefix (e.g. SOFA01_front.jpg)</option>
+            </select>
+          </label>
+          <label className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer">
+            {grouping === 'folder' ? 'Add folders...' : 'Add files...'}
+            <input
+              // Re-mounted when the mode changes, since the directory attribute can't be toggled on a live input
+              key={grouping}
+              type="file"
+              multiple
+              accept="image/png, image/jpeg, image/webp"
+              className="hidden"
+              {...(grouping === 'folder' ? { webkitdirectory: '' } : {})}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+        <p className="text-xs text-gray-500">A file with "spec" in its name is read as the spec sheet; otherwise the first file alphabetically is used. Creative styles, aspect ratios and quality checks come from the upload screen.</p>
+        <textarea
+          value={userInstructions}
+          onChange={(e) => setUserInstructions(e.target.value)}
+          placeholder="Instructions applied to every product (optional)"
+          className="w-full p-3 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 shadow-sm text-sm min-h-[70px]"
+        />
+        <div className="flex flex-wrap items-center gap-4 pt-4 border-t border-gray-100">
+          <button
+            onClick={() => setIsActive(!isActive)}
+            disabled={!isActive && queuedCount === 0}
+            className="px-5 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isActive ? 'Pause' : doneCount > 0 || runningCount > 0 ? 'Resume' : 'Start'}
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Run
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(count => (
+                <option key={count} value={count}>{count === 1 ? 'one at a time' : `${count} at a time`}</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-sm text-gray-500">
+            {doneCount} of {jobs.length} done{runningCount > 0 ? `, ${runningCount} running` : ''}
+            {!isActive && runningCount > 0 ? ' (paused; running jobs will finish)' : ''}
+          </span>
+          {doneCount > 0 && (
+            <button onClick={handleClearFinished} className="ml-auto text-sm text-gray-500 hover:text-gray-800">Clear finished</button>
+          )}
+        </div>
+      </div>
+
+      {jobs.length > 0 && (
+        <ul className="bg-white rounded-lg shadow-md border border-gray-200 divide-y divide-gray-100">
+          {jobs.map(job => (
+            <li key={job.id} className="p-4 flex flex-wrap items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 truncate" title={job.name}>{job.name}</p>
+                <p className="text-xs text-gray-500">
+                  {job.files.length} file{job.files.length === 1 ? '' : 's'}, spec sheet: {job.files[0]?.name}
+                </p>
+                {job.progress && <p className="text-xs text-indigo-700 mt-1">{job.progress}</p>}
+                {job.error && <p className="text-xs text-red-700 mt-1">{job.error}</p>}
+                {job.failedImages ? <p className="text-xs text-amber-700 mt-1">{job.failedImages} image{job.failedImages === 1 ? '' : 's'} failed; open the project to retry them.</p> : null}
+              </div>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+              <div className="flex gap-3 text-sm">
+                {job.status === 'done' && job.projectId && (
+                  <button onClick={() => onOpenProject(job.projectId!)} className="font-medium text-indigo-600 hover:text-indigo-500">Open</button>
+                )}
+                {job.status === 'error' && (
+                  <button onClick={() => handleRetry(job.id)} className="font-medium text-indigo-600 hover:text-indigo-500">Retry</button>
+                )}
+                {!isRunning(job) && (
+                  <button onClick={() => handleRemove(job.id)} className="text-gray-500 hover:text-red-600">Remove</button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {doneCount > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-3">
+          <p className="text-sm font-medium text-gray-700">Combined export</p>
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={exportFormat}
+              onChange={(e) => handleExportFormatChange(e.target.value as ExportFormat)}
+              className="px-2 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              aria-label="Export format"
+            >
+              {Object.values(EXPORTERS).map(exporter => (
+                <option key={exporter.format} value={exporter.format}>{exporter.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleCombinedExport}
+              disabled={isExporting}
+              className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+            >
+              {isExporting ? 'Building CSV...' : `Export CSV for ${doneCount} product${doneCount === 1 ? '' : 's'}`}
+            </button>
+          </div>
+          <input
+            type="url"
+            value={imageBaseUrl}
+            onChange={(e) => handleImageBaseUrlChange(e.target.value)}
+            placeholder="Image base URL (optional), e.g. https://cdn.example.com/launch"
+            className="block w-full max-w-xl px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <p className="text-xs text-gray-500">Upload each product's ZIP contents to a folder named after its handle under this URL, e.g. <code>.../launch/oslo-sofa/</code>.</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { BrandProfile, BrandProfileLibrary, CarePolicy } from '../types';
+import { DEFAULT_BRAND_PROFILE, loadBrandProfiles, saveBrandProfiles } from '../utils/brandProfiles';
+
+interface BrandProfileSettingsProps {
+  onClose: () => void;
+}
+
+// Lists are edited one entry per line; blank lines are dropped on save.
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) => text.split('\n');
+const cleanList = (values: string[]) => values.map(value => value.trim()).filter(Boolean);
+
+const cleanProfile = (profile: BrandProfile): BrandProfile => ({
+  ...profile,
+  name: profile.name.trim() || 'Untitled brand',
+  carePolicies: profile.carePolicies.filter(policy => policy.material.trim() && policy.instructions.trim()),
+  bannedWords: cleanList(profile.bannedWords),
+  requiredPhrases: cleanList(profile.requiredPhrases),
+  sampleDescriptions: profile.sampleDescriptions.filter(sample => sample.trim()),
+});
+
+export const BrandProfileSettings: React.FC<BrandProfileSettingsProps> = ({ onClose }) => {
+  const [library, setLibrary] = useState<BrandProfileLibrary>(loadBrandProfiles);
+  const [selectedId, setSelectedId] = useState(library.activeProfileId);
+  const [savedMessage, setSavedMessage] = useState('');
+  const profile = library.profiles.find(p => p.id === selectedId) ?? library.profiles[0];
+
+  const updateLibrary = (next: BrandProfileLibrary) => {
+    setLibrary(next);
+    setSavedMessage('');
+  };
+
+  const updateProfile = (changes: Partial<BrandProfile>) => {
+    updateLibrary({ ...library, profiles: library.profiles.map(p => p.id === profile.id ? { ...p, ...changes } : p) });
+  };
+
+  const updateCarePolicy = (index: number, changes: Partial<CarePolicy>) => {
+    updateProfile({ carePolicies: profile.carePolicies.map((policy, i) => i === index ? { ...policy, ...changes } : policy) });
+  };
+
+  const addProfile = (source: BrandProfile, name: string) => {
+    const copy: BrandProfile = { ...source, id: crypto.randomUUID(), name };
+    updateLibrary({ ...library, profiles: [...library.profiles, copy] });
+    setSelectedId(copy.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (library.profiles.length === 1 || !window.confirm(`Delete the "${profile.name}" brand profile?`)) return;
+    const profiles = library.profiles.filter(p => p.id !== profile.id);
+    const activeProfileId = library.activeProfileId === profile.id ? profiles[0].id : library.activeProfileId;
+    updateLibrary({ profiles, activeProfileId });
+    setSelectedId(activeProfileId);
+  };
+
+  const handleSave = () => {
+    // The header may have switched the active brand while this page was open
+    const profiles = library.profiles.map(cleanProfile);
+    const current = loadBrandProfiles().activeProfileId;
+    const cleaned = { profiles, activeProfileId: profiles.some(p => p.id === current) ? current : library.activeProfileId };
+    setLibrary(cleaned);
+    saveBrandProfiles(cleaned);
+    setSavedMessage('Brand profiles saved. They apply to the next photoshoot and to exports.');
+  };
+
+  const inputClassName = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+  const buttonClassName = "px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50";
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Brand Profiles</h2>
+          <p className="text-gray-600">Vendor, policies and copy voice for each store brand. Pick the brand for new photoshoots in the header.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={profile.id}
+            onChange={(e) => setSelectedId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            aria-label="Brand profile to edit"
+          >
+            {library.profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name}{p.id === library.activeProfileId ? ' (active)' : ''}</option>
+            ))}
+          </select>
+          <button type="button" onClick={() => addProfile(DEFAULT_BRAND_PROFILE, 'New brand')} className={buttonClassName}>+ New</button>
+          <button type="button" onClick={() => addProfile(profile, `${profile.name} (copy)`)} className={buttonClassName}>Duplicate</button>
+          <button type="button" onClick={handleDeleteProfile} disabled={library.profiles.length === 1} className={`${buttonClassName} disabled:text-gray-400`}>Delete</button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <h3 className="font-semibold text-lg">Business details</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Profile name</span>
+            <input type="text" value={profile.name} onChange={(e) => updateProfile({ name: e.target.value })} className={`${inputClassName} mt-1`} />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Vendor</span>
+            <input type="text" value={profile.vendor} onChange={(e) => updateProfile({ vendor: e.target.value })} className={`${inputClassName} mt-1`} />
+            <span className="text-xs text-gray-500">Exported as the Shopify vendor and the WooCommerce and BigCommerce brand.</span>
+          </label>
+        </div>
+        <label className="block text-sm">
+          <span className="text-gray-700 font-medium">Shipping policy</span>
+          <textarea value={profile.shippingPolicy} onChange={(e) => updateProfile({ shippingPolicy: e.target.value })} rows={2} className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700 font-medium">Social media caption</span>
+          <input type="text" value={profile.captionTemplate} onChange={(e) => updateProfile({ captionTemplate: e.target.value })} className={`${inputClassName} mt-1`} />
+          <span className="text-xs text-gray-500">
+            <code>{'{productName}'}</code> and <code>{'{productHashtag}'}</code> are filled in.
+          </span>
+        </label>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <div>
+          <h3 className="font-semibold text-lg">Care policies</h3>
+          <p className="text-sm text-gray-500">Matched against each variation's Material, e.g. "Wood" also matches "Solid oak wood".</p>
+        </div>
+        {profile.carePolicies.map((policy, index) => (
+          <div key={index} className="flex gap-2 items-start">
+            <input
+              type="text"
+              value={policy.material}
+              onChange={(e) => updateCarePolicy(index, { material: e.target.value })}
+              placeholder="Material"
+              className={`${inputClassName} w-40 flex-shrink-0`}
+            />
+            <textarea
+              value={policy.instructions}
+              onChange={(e) => updateCarePolicy(index, { instructions: e.target.value })}
+              rows={2}
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => updateProfile({ carePolicies: profile.carePolicies.filter((_, i) => i !== index) })}
+              className="text-gray-400 hover:text-red-600 px-1"
+              aria-label={`Remove care policy for ${policy.material}`}
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => updateProfile({ carePolicies: [...profile.carePolicies, { material: '', instructions: '' }] })}
+          className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+        >
+          + Add material
+        </button>
+        <label className="block text-sm">
+          <span className="text-gray-700 font-medium">Default care instructions</span>
+          <textarea value={profile.defaultCareInstructions} onChange={(e) => updateProfile({ defaultCareInstructions: e.target.value })} rows={2} className={`${inputClassName} mt-1`} />
+          <span className="text-xs text-gray-500">Used when no policy matches the product's materials.</span>
+        </label>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <h3 className="font-semibold text-lg">Copy voice</h3>
+        <label className="block text-sm">
+          <span className="text-gray-700 font-medium">Tone guide</span>
+          <textarea
+            value={profile.toneGuide}
+            onChange={(e) => updateProfile({ toneGuide: e.target.value })}
+            rows={3}
+            placeholder="e.g. Warm and understated. Short sentences. Talk about how the piece feels to live with."
+            className={`${inputClassName} mt-1`}
+          />
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Banned words (one per line)</span>
+            <textarea value={toLines(profile.bannedWords)} onChange={(e) => updateProfile({ bannedWords: fromLines(e.target.value) })} rows={4} className={`${inputClassName} mt-1`} />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Required phrases (one per line)</span>
+            <textarea value={toLines(profile.requiredPhrases)} onChange={(e) => updateProfile({ requiredPhrases: fromLines(e.target.value) })} rows={4} className={`${inputClassName} mt-1`} />
+            <span className="text-xs text-gray-500">Must appear in every product description.</span>
+          </label>
+        </div>
+        <div className="space-y-2">
+          <span className="block text-sm text-gray-700 font-medium">Sample descriptions</span>
+          {profile.sampleDescriptions.map((sample, index) => (
+            <div key={index} className="flex gap-2 items-start">
+              <textarea
+                value={sample}
+                onChange={(e) => updateProfile({ sampleDescriptions: profile.sampleDescriptions.map((s, i) => i === index ? e.target.value : s) })}
+                rows={4}
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => updateProfile({ sampleDescriptions: profile.sampleDescriptions.filter((_, i) => i !== index) })}
+                className="text-gray-400 hover:text-red-600 px-1"
+                aria-label="Remove sample description"
+              >
+                &times;
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => updateProfile({ sampleDescriptions: [...profile.sampleDescriptions, ''] })}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            + Add sample
+          </button>
+        </div>
+      </div>
+
+      {savedMessage && <p className="text-sm text-green-700">{savedMessage}</p>}
+
+      <div className="flex justify-center gap-4 pt-4">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-6 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="w-full max-w-xs px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+        >
+          Save Brand Profiles
+        </button>
+      </div>
+    </div>
+  );
+};
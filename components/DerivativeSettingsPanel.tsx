@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import {
+  DERIVATIVE_FORMAT_LABELS,
+  DerivativeFormat,
+  DerivativeSettings,
+  describeDerivative,
+  getDerivativeSpecs,
+  isSameDerivative,
+} from '../utils/derivatives';
+
+interface DerivativeSettingsPanelProps {
+  settings: DerivativeSettings;
+  onChange: (settings: DerivativeSettings) => void;
+}
+
+const parseWidths = (value: string): number[] =>
+  [...new Set(value.split(/[\s,]+/).map(Number).filter(width => Number.isInteger(width) && width >= 100 && width <= 8192))]
+    .sort((a, b) => b - a);
+
+export const DerivativeSettingsPanel: React.FC<DerivativeSettingsPanelProps> = ({ settings, onChange }) => {
+  const [widthsText, setWidthsText] = useState(settings.widths.join(', '));
+  const specs = getDerivativeSpecs(settings);
+
+  // Falls back to linking the original when the chosen derivative is no longer produced.
+  const update = (changes: Partial<DerivativeSettings>) => {
+    const next = { ...settings, ...changes };
+    if (next.linkTo && !getDerivativeSpecs(next).some(spec => isSameDerivative(spec, next.linkTo))) {
+      next.linkTo = null;
+    }
+    onChange(next);
+  };
+
+  const toggleFormat = (format: DerivativeFormat, included: boolean) => {
+    update({ formats: (Object.keys(DERIVATIVE_FORMAT_LABELS) as DerivativeFormat[]).filter(f => f === format ? included : settings.formats.includes(f)) });
+  };
+
+  const commitWidths = () => {
+    const widths = parseWidths(widthsText);
+    setWidthsText(widths.join(', '));
+    update({ widths });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-gray-700">Web-optimized images</p>
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+        {(Object.keys(DERIVATIVE_FORMAT_LABELS) as DerivativeFormat[]).map(format => (
+          <label key={format} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.formats.includes(format)}
+              onChange={(e) => toggleFormat(format, e.target.checked)}
+              className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+            />
+            {DERIVATIVE_FORMAT_LABELS[format]}
+          </label>
+        ))}
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Widths (px)
+          <input
+            type="text"
+            value={widthsText}
+            onChange={(e) => setWidthsText(e.target.value)}
+            onBlur={commitWidths}
+            className="w-40 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Quality
+          <input
+            type="range"
+            min={50}
+            max={100}
+            value={Math.round(settings.quality * 100)}
+            onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+            className="w-28"
+          />
+          <span className="w-10 text-gray-500">{Math.round(settings.quality * 100)}%</span>
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        CSV image links use
+        <select
+          value={settings.linkTo ? specs.findIndex(spec => isSameDerivative(spec, settings.linkTo)) : -1}
+          onChange={(e) => update({ linkTo: specs[Number(e.target.value)] ?? null })}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        >
+          <option value={-1}>Original PNG</option>
+          {specs.map((spec, index) => (
+            <option key={`${spec.format}-${spec.width}`} value={index}>{describeDerivative(spec)}</option>
+          ))}
+        </select>
+      </label>
+      <p className="text-xs text-gray-500">
+        Resized copies are encoded in your browser at export time and saved next to each original, e.g. <code>studio-shot-1200w.webp</code>. Images are never upscaled.
+      </p>
+    </div>
+  );
+};
@@ -1,21 +1,57 @@
-import React, { useState } from 'react';
-import { GeneratedImage } from '../types';
+import React, { useEffect, useState } from 'react';
+import { GeneratedImage, ImageOperation } from '../types';
 import { EditIcon, RegenerateIcon } from './icons';
+import { MaskPainter } from './MaskPainter';
+import { getCurrentCutout } from '../utils/cutout';
+import { getCurrentAltText } from '../utils/imageVersions';
 
 interface ImageCardProps {
   image: GeneratedImage;
-  onEdit: (imageId: string, prompt: string) => Promise<void>;
+  onEdit: (imageId: string, prompt: string, baseVersionId?: string, mask?: string) => Promise<void>;
   onRegenerate: (image: GeneratedImage, newPrompt?: string) => Promise<void>;
+  onRestoreVersion: (imageId: string, versionId: string) => void;
+  onCreateCutout: (image: GeneratedImage, withShadow: boolean) => Promise<void>;
+  onRemoveCutout: (imageId: string) => void;
+  onWriteAltText: (image: GeneratedImage) => Promise<void>;
   isEditing: boolean;
 }
 
-export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, onRegenerate, isEditing }) => {
+const OPERATION_LABELS: Record<ImageOperation, string> = {
+  generate: 'Generated',
+  edit: 'Edited',
+  regenerate: 'Regenerated',
+};
+
+// Checkerboard behind transparent previews
+const TRANSPARENCY_BACKGROUND: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#e5e7eb 25%, #ffffff 0 50%, #e5e7eb 0 75%, #ffffff 0)',
+  backgroundSize: '16px 16px',
+};
+
+export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, onRegenerate, onRestoreVersion, onCreateCutout, onRemoveCutout, onWriteAltText, isEditing }) => {
   const [editPrompt, setEditPrompt] = useState('');
+  const [isMasking, setIsMasking] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
+  const [cutoutShadow, setCutoutShadow] = useState(false);
+  const [isCuttingOut, setIsCuttingOut] = useState(false);
+  const [isWritingAltText, setIsWritingAltText] = useState(false);
+  const currentIndex = Math.max(0, image.versions.findIndex(v => v.id === image.currentVersionId));
+  const [viewIndex, setViewIndex] = useState(currentIndex);
+
+  // Jump to the active version whenever a new one is added or restored.
+  useEffect(() => {
+    setViewIndex(currentIndex);
+  }, [currentIndex, image.versions.length]);
+
+  const viewedVersion = image.versions[viewIndex] ?? image.versions[currentIndex];
+  const isViewingCurrent = viewIndex === currentIndex;
+  const displayBase64 = viewedVersion ? viewedVersion.base64 : image.base64;
 
   const handleEdit = (e: React.FormEvent) => {
     e.preventDefault();
     if (editPrompt.trim()) {
-      onEdit(image.id, editPrompt);
+      // Editing while viewing an older version branches a new version from it.
+      onEdit(image.id, editPrompt, viewedVersion?.id, isMasking && mask ? mask : undefined);
     }
   };
 
@@ -23,10 +59,82 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, onRegenerat
     onRegenerate(image, editPrompt);
   };
 
+  const handleCreateCutout = async () => {
+    setIsCuttingOut(true);
+    try {
+      await onCreateCutout(image, cutoutShadow);
+    } finally {
+      setIsCuttingOut(false);
+    }
+  };
+
+  const handleWriteAltText = async () => {
+    setIsWritingAltText(true);
+    try {
+      await onWriteAltText(image);
+    } finally {
+      setIsWritingAltText(false);
+    }
+  };
+
+  const cutout = getCurrentCutout(image);
+  const altText = getCurrentAltText(image);
+  // Reports only count for the version they were made on.
+  const quality = image.quality && image.quality.versionId === image.currentVersionId ? image.quality : undefined;
+
+  if (image.status !== 'done') {
+    const isPending = image.status === 'pending' || image.status === 'generating' || isEditing;
+    return (
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden border border-gray-200 flex flex-col">
+        <div className="relative h-64 bg-gray-100 flex items-center justify-center">
+          <span className="absolute top-2 left-2 bg-black bg-opacity-60 text-white text-xs font-mono px-2 py-0.5 rounded">{image.sourceAspectRatio}</span>
+          {isPending ? (
+            <div className="flex flex-col items-center text-gray-500">
+              <svg className="animate-spin h-8 w-8 mb-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              <span className="text-sm">{image.status === 'pending' ? 'Queued...' : 'Generating...'}</span>
+            </div>
+          ) : (
+            <div className="px-6 text-center">
+              <p className="text-sm font-semibold text-red-700">Generation failed</p>
+              <p className="text-xs text-red-600 mt-1 break-words">{image.error}</p>
+            </div>
+          )}
+        </div>
+        <div className="p-4 flex flex-col flex-grow">
+          <h4 className="font-bold text-lg text-gray-800">{image.title}</h4>
+          <p className="text-sm text-gray-600 mb-4 flex-grow">{image.description}</p>
+          {image.status === 'error' && (
+            <button
+              onClick={() => onRegenerate(image)}
+              disabled={isEditing}
+              className="w-full flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+            >
+              <RegenerateIcon />
+              Retry
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-lg overflow-hidden border border-gray-200 transition-shadow hover:shadow-xl flex flex-col">
-      <div className="relative aspect-w-1 aspect-h-1">
-        <img src={`data:image/png;base64,${image.base64}`} alt={image.title} className="w-full h-full object-cover" />
+      <div className={`relative ${isMasking ? '' : 'aspect-w-1 aspect-h-1'}`}>
+        {isMasking ? (
+          <MaskPainter imageBase64={displayBase64} alt={(isViewingCurrent && altText) || image.title} onChange={setMask} disabled={isEditing} />
+        ) : (
+          <img src={`data:image/png;base64,${displayBase64}`} alt={(isViewingCurrent && altText) || image.title} className="w-full h-full object-cover" />
+        )}
+        <span className="absolute top-2 left-2 bg-black bg-opacity-60 text-white text-xs font-mono px-2 py-0.5 rounded">{image.sourceAspectRatio}</span>
+        {quality && isViewingCurrent && (
+          <span className={`absolute top-2 right-2 text-white text-xs font-medium px-2 py-0.5 rounded ${quality.passed ? 'bg-green-600' : 'bg-amber-500'}`}>
+            {quality.passed ? 'Checks passed' : 'Flagged'}
+          </span>
+        )}
         {isEditing && (
           <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center">
             <svg className="animate-spin h-10 w-10 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -39,8 +147,130 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, onRegenerat
       <div className="p-4 flex flex-col flex-grow">
         <h4 className="font-bold text-lg text-gray-800">{image.title}</h4>
         <p className="text-sm text-gray-600 mb-4 flex-grow">{image.description}</p>
+
+        {isViewingCurrent && (
+          <div className="mb-3 p-2 bg-gray-50 border border-gray-200 rounded-md text-xs text-gray-600">
+            {altText ? (
+              <p><span className="font-semibold">Alt text:</span> {altText}</p>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-gray-500">No alt text for this version.</span>
+                <button
+                  type="button"
+                  onClick={handleWriteAltText}
+                  disabled={isWritingAltText || isEditing}
+                  className="font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+                >
+                  {isWritingAltText ? 'Writing...' : 'Write alt text'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {quality && !quality.passed && isViewingCurrent && (
+          <div className="mb-3 p-2 bg-amber-50 border border-amber-200 rounded-md text-xs text-amber-800">
+            <p className="font-semibold">
+              Failed quality checks{quality.attempts > 1 ? ` after ${quality.attempts} attempts` : ''}
+            </p>
+            <ul className="mt-1 list-disc list-inside">
+              {quality.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {image.versions.length > 1 && viewedVersion && (
+          <div className="mb-3 p-2 bg-gray-50 border border-gray-200 rounded-md text-xs text-gray-600">
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => setViewIndex(viewIndex - 1)}
+                disabled={viewIndex === 0 || isEditing}
+                className="px-2 py-1 rounded hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent"
+                aria-label="Previous version"
+              >
+                &#8249;
+              </button>
+              <span className="font-medium">
+                Version {viewIndex + 1} of {image.versions.length}
+                {isViewingCurrent && <span className="ml-1 text-indigo-600">(current)</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => setViewIndex(viewIndex + 1)}
+                disabled={viewIndex === image.versions.length - 1 || isEditing}
+                className="px-2 py-1 rounded hover:bg-gray-200 disabled:text-gray-300 disabled:hover:bg-transparent"
+                aria-label="Next version"
+              >
+                &#8250;
+              </button>
+            </div>
+            <p className="mt-1 truncate" title={viewedVersion.prompt}>
+              {OPERATION_LABELS[viewedVersion.operation]} {new Date(viewedVersion.createdAt).toLocaleTimeString()}
+              {viewedVersion.operation === 'edit' && <>: "{viewedVersion.prompt}"</>}
+            </p>
+            {!isViewingCurrent && (
+              <div className="mt-2 flex items-center justify-between">
+                <span className="text-gray-500">Edits below will branch from this version.</span>
+                <button
+                  type="button"
+                  onClick={() => onRestoreVersion(image.id, viewedVersion.id)}
+                  disabled={isEditing}
+                  className="font-medium text-indigo-600 hover:text-indigo-800"
+                >
+                  Restore
+                </button>
+              </div>
+            )}
+          </div>
+        )}
         
-        <form onSubmit={handleEdit} className="flex gap-2 items-center mt-auto">
+        {image.category === 'studio' && (
+          <div className="mb-3 p-2 bg-gray-50 border border-gray-200 rounded-md text-xs text-gray-600">
+            {cutout ? (
+              <div className="flex items-center gap-3">
+                <img
+                  src={`data:image/png;base64,${cutout.base64}`}
+                  alt={`${image.title} cutout`}
+                  style={TRANSPARENCY_BACKGROUND}
+                  className="h-16 w-16 object-contain rounded border border-gray-200"
+                />
+                <span className="flex-grow">Transparent cutout{cutout.withShadow ? ' with shadow' : ''}</span>
+                <button type="button" onClick={() => onRemoveCutout(image.id)} className="text-red-600 hover:text-red-500">Remove</button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between gap-2">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={cutoutShadow} onChange={(e) => setCutoutShadow(e.target.checked)} className="h-3 w-3" />
+                  Contact shadow
+                </label>
+                <button
+                  type="button"
+                  onClick={handleCreateCutout}
+                  disabled={isCuttingOut || isEditing}
+                  className="font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+                >
+                  {isCuttingOut ? 'Cutting out...' : image.cutout ? 'Update cutout' : 'Create cutout'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-auto mb-2 text-xs">
+          <span className="text-gray-500">
+            {isMasking ? (mask ? 'Only the painted area will change.' : 'Paint the area to change.') : 'Edits apply to the whole image.'}
+          </span>
+          <button
+            type="button"
+            onClick={() => { setIsMasking(!isMasking); setMask(null); }}
+            disabled={isEditing}
+            className="font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+          >
+            {isMasking ? 'Done masking' : 'Paint mask'}
+          </button>
+        </div>
+        <form onSubmit={handleEdit} className="flex gap-2 items-center">
           <input
             type="text"
             value={editPrompt}
@@ -51,7 +281,7 @@ export const ImageCard: React.FC<ImageCardProps> = ({ image, onEdit, onRegenerat
           />
           <button
             type="submit"
-            disabled={!editPrompt.trim() || isEditing}
+            disabled={!editPrompt.trim() || isEditing || (isMasking && !mask)}
             className="p-2 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
             aria-label="Edit Image"
             title="Edit Image"
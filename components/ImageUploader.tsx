@@ -1,12 +1,24 @@
 import React, { useCallback, useState } from 'react';
 import { UploadIcon, GenerateIcon, PlusIcon } from './icons';
+import { AspectRatio, AspectRatioSelection, CreativeStyle, ImageCategory, Locale, QualitySettings } from '../types';
+import { CREATIVE_STYLES } from '../utils/creativeStyles';
+import { ASPECT_RATIOS, ASPECT_RATIO_LABELS } from '../utils/imageUtils';
+import { LOCALES, LocaleSettings, SOURCE_LOCALE, TRANSLATION_LOCALES } from '../utils/locales';
 
 interface ImageUploaderProps {
   sourceImages: File[];
   setSourceImages: (files: File[]) => void;
   userInstructions: string;
   setUserInstructions: (text: string) => void;
-  onGenerate: () => void;
+  creativeStyles: CreativeStyle[];
+  setCreativeStyles: (styles: CreativeStyle[]) => void;
+  aspectRatios: AspectRatioSelection;
+  setAspectRatios: (ratios: AspectRatioSelection) => void;
+  qualitySettings: QualitySettings;
+  setQualitySettings: (settings: QualitySettings) => void;
+  localeSettings: LocaleSettings;
+  setLocaleSettings: (settings: LocaleSettings) => void;
+  onAnalyze: () => void;
   isGenerating: boolean;
 }
 
@@ -15,11 +27,33 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
   setSourceImages,
   userInstructions,
   setUserInstructions,
-  onGenerate,
+  creativeStyles,
+  setCreativeStyles,
+  aspectRatios,
+  setAspectRatios,
+  qualitySettings,
+  setQualitySettings,
+  localeSettings,
+  setLocaleSettings,
+  onAnalyze,
   isGenerating,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
 
+  const handleLocaleToggle = (locale: Locale, included: boolean) => {
+    setLocaleSettings({
+      ...localeSettings,
+      targetLocales: TRANSLATION_LOCALES.filter(l => l === locale ? included : localeSettings.targetLocales.includes(l)),
+    });
+  };
+
+  const handleExchangeRateChange = (locale: Locale, value: string) => {
+    const rate = Number(value);
+    if (rate > 0) {
+      setLocaleSettings({ ...localeSettings, exchangeRates: { ...localeSettings.exchangeRates, [locale]: rate } });
+    }
+  };
+
   const handleFileChange = (files: FileList | null) => {
     if (files) {
       // De-duplication logic: ensures the exact same file isn't added twice.
@@ -61,6 +95,28 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
       setSourceImages(sourceImages.filter((_, i) => i !== index));
   }
 
+  const handleToggleStyle = (style: CreativeStyle) => {
+      if (creativeStyles.includes(style)) {
+          // Keep at least one style selected so lifestyle shots always have a scene.
+          if (creativeStyles.length > 1) {
+              setCreativeStyles(creativeStyles.filter(s => s !== style));
+          }
+      } else {
+          setCreativeStyles([...creativeStyles, style]);
+      }
+  }
+
+  const handleToggleRatio = (category: ImageCategory, ratio: AspectRatio) => {
+      const current = aspectRatios[category];
+      if (current.includes(ratio)) {
+          // Clearing every ratio falls back to each template's own ratio.
+          setAspectRatios({ ...aspectRatios, [category]: current.filter(r => r !== ratio) });
+      } else {
+          // Keep the canonical ratio order so outputs are generated predictably.
+          setAspectRatios({ ...aspectRatios, [category]: ASPECT_RATIOS.filter(r => r === ratio || current.includes(r)) });
+      }
+  }
+
   return (
     <div className="w-full space-y-6">
       <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 flex flex-col">
@@ -138,11 +194,135 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
             />
         </div>
 
+        <div className="border-t border-gray-100 pt-6 mt-6">
+            <h3 className="font-semibold text-lg mb-1">3. Lifestyle Scene Style</h3>
+            <p className="text-sm text-gray-500 mb-3">Pick one or more styles. Every lifestyle shot is generated once per selected style.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                {(Object.keys(CREATIVE_STYLES) as CreativeStyle[]).map(style => {
+                    const isSelected = creativeStyles.includes(style);
+                    return (
+                        <button
+                            key={style}
+                            type="button"
+                            onClick={() => handleToggleStyle(style)}
+                            aria-pressed={isSelected}
+                            className={`text-left p-3 rounded-md border transition-colors ${
+                                isSelected ? 'border-indigo-500 bg-indigo-50 ring-1 ring-indigo-500' : 'border-gray-300 bg-white hover:bg-gray-50'
+                            }`}
+                        >
+                            <span className="block text-sm font-semibold text-gray-800">{CREATIVE_STYLES[style].label}</span>
+                            <span className="block text-xs text-gray-500 mt-1">{CREATIVE_STYLES[style].summary}</span>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+
+        <div className="border-t border-gray-100 pt-6 mt-6">
+            <h3 className="font-semibold text-lg mb-1">4. Output Aspect Ratios</h3>
+            <p className="text-sm text-gray-500 mb-3">Each shot is generated once per selected ratio. Leave a shot type empty to use each template's own ratio.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {(['studio', 'lifestyle'] as ImageCategory[]).map(category => (
+                    <div key={category}>
+                        <p className="text-sm font-medium text-gray-700 mb-2">{category === 'studio' ? 'Studio shots' : 'Lifestyle shots'}</p>
+                        <div className="space-y-2">
+                            {ASPECT_RATIOS.map(ratio => (
+                                <label key={ratio} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={aspectRatios[category].includes(ratio)}
+                                        onChange={() => handleToggleRatio(category, ratio)}
+                                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                                    />
+                                    <span className="font-mono">{ratio}</span>
+                                    <span className="text-gray-500">{ASPECT_RATIO_LABELS[ratio]}</span>
+                                </label>
+                            ))}
+                            {aspectRatios[category].length === 0 && (
+                                <p className="text-xs text-gray-500">Using each template's default ratio.</p>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+
+        <div className="border-t border-gray-100 pt-6 mt-6">
+            <h3 className="font-semibold text-lg mb-1">5. Quality Checks</h3>
+            <p className="text-sm text-gray-500 mb-3">Generated images are checked for grey backgrounds, shaded corners, divider lines and split-screen seams. Failing images are flagged with the reasons.</p>
+            <div className="space-y-2 text-sm text-gray-700">
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={qualitySettings.enabled}
+                        onChange={(e) => setQualitySettings({ ...qualitySettings, enabled: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                    />
+                    Check generated images
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={qualitySettings.visionCheck}
+                        disabled={!qualitySettings.enabled}
+                        onChange={(e) => setQualitySettings({ ...qualitySettings, visionCheck: e.target.checked })}
+                        className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                    />
+                    Also review with a vision model (text, arrows, extra furniture, changed design; one extra request per image)
+                </label>
+                <label className="flex items-center gap-2">
+                    Regenerate failing images automatically up to
+                    <input
+                        type="number"
+                        min={0}
+                        max={5}
+                        value={qualitySettings.maxAutoRetries}
+                        disabled={!qualitySettings.enabled}
+                        onChange={(e) => setQualitySettings({ ...qualitySettings, maxAutoRetries: Math.min(5, Math.max(0, Math.floor(Number(e.target.value) || 0))) })}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    times
+                </label>
+            </div>
+        </div>
+
+        <div className="border-t border-gray-100 pt-6 mt-6">
+            <h3 className="font-semibold text-lg mb-1">6. Markets</h3>
+            <p className="text-sm text-gray-500 mb-3">Copy is written for {LOCALES[SOURCE_LOCALE].label}. Selected markets also get translated copy with their own units and currency, and their own CSV on export.</p>
+            <div className="space-y-2 text-sm text-gray-700">
+                {TRANSLATION_LOCALES.map(locale => (
+                    <div key={locale} className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                        <label className="flex items-center gap-2 cursor-pointer w-56">
+                            <input
+                                type="checkbox"
+                                checked={localeSettings.targetLocales.includes(locale)}
+                                onChange={(e) => handleLocaleToggle(locale, e.target.checked)}
+                                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                            />
+                            {LOCALES[locale].label}
+                        </label>
+                        <label className="flex items-center gap-2 text-gray-500">
+                            1 {LOCALES[SOURCE_LOCALE].currency} =
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.01}
+                                value={localeSettings.exchangeRates[locale]}
+                                onChange={(e) => handleExchangeRateChange(locale, e.target.value)}
+                                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                            />
+                            {LOCALES[locale].currency}
+                        </label>
+                    </div>
+                ))}
+            </div>
+        </div>
+
       </div>
 
       <div className="flex justify-center pt-4">
         <button
-          onClick={onGenerate}
+          onClick={onAnalyze}
           disabled={sourceImages.length === 0 || isGenerating}
           className="flex items-center justify-center w-full max-w-xs px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all"
         >
@@ -152,12 +332,12 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
               </svg>
-              Generating...
+              Analyzing...
             </>
           ) : (
             <>
               <GenerateIcon />
-              Generate All Variations
+              Analyze Spec Sheet
             </>
           )}
         </button>
@@ -0,0 +1,114 @@
+import React, { useRef, useState } from 'react';
+import { isMaskEmpty } from '../utils/imageMask';
+
+interface MaskPainterProps {
+  imageBase64: string;
+  alt: string;
+  onChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+type MaskTool = 'brush' | 'erase';
+
+/**
+ * Shows an image with a paintable overlay. The mask is reported at the image's natural size
+ * (null when nothing is painted) after every stroke.
+ */
+export const MaskPainter: React.FC<MaskPainterProps> = ({ imageBase64, alt, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+
+  // The canvas matches the image's pixel size so the mask lines up exactly when composited.
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    onChange(null);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPointRef.current ?? { x, y };
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+  };
+
+  const emitMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    onChange(isMaskEmpty(pixels) ? null : canvas.toDataURL('image/png').split(',')[1]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) drawTo(e);
+  };
+
+  const handlePointerUp = () => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    emitMask();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  const toolClassName = (active: boolean) =>
+    `px-2 py-1 rounded ${active ? 'bg-indigo-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'}`;
+
+  return (
+    <div>
+      <div className="relative">
+        <img src={`data:image/png;base64,${imageBase64}`} alt={alt} onLoad={handleImageLoad} className="block w-full h-auto" />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 px-4 pt-3 text-xs">
+        <button type="button" onClick={() => setTool('brush')} className={toolClassName(tool === 'brush')}>Brush</button>
+        <button type="button" onClick={() => setTool('erase')} className={toolClassName(tool === 'erase')}>Erase</button>
+        <label className="flex items-center gap-1 text-gray-600">
+          Size
+          <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-20" />
+        </label>
+        <button type="button" onClick={handleClear} className="ml-auto text-gray-600 hover:text-gray-900">Clear</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React from 'react';
+import { PriceRounding, PriceRule, PricingSettings, VariationResult } from '../types';
+import { LOCALES, SOURCE_LOCALE } from '../utils/locales';
+import { PRICE_ROUNDING_LABELS } from '../utils/pricing';
+
+interface PricingPanelProps {
+  pricing: PricingSettings;
+  suggestedPrice: string;
+  variationResults: VariationResult[];
+  onChange: (pricing: PricingSettings) => void;
+}
+
+const toNumber = (value: string): number => Number(value) || 0;
+
+export const PricingPanel: React.FC<PricingPanelProps> = ({ pricing, suggestedPrice, variationResults, onChange }) => {
+  const currency = LOCALES[SOURCE_LOCALE].currency;
+  const attributeNames = [...new Set<string>(variationResults.flatMap(result => Object.keys(result.variation)))]
+    .filter(name => name.toLowerCase() !== 'dimensions');
+  const attributeValues = (attribute: string) => [...new Set<string>(variationResults
+    .flatMap(result => Object.entries(result.variation))
+    .filter(([name]) => attribute ? name === attribute : name.toLowerCase() !== 'dimensions')
+    .map(([, value]) => value)
+    .filter(Boolean))];
+
+  const update = (changes: Partial<PricingSettings>) => onChange({ ...pricing, ...changes });
+
+  const updateRule = (id: string, changes: Partial<PriceRule>) => {
+    update({ rules: pricing.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule) });
+  };
+
+  const handleAddRule = () => {
+    const attribute = attributeNames[0] ?? '';
+    update({ rules: [...pricing.rules, { id: crypto.randomUUID(), attribute, value: attributeValues(attribute)[0] ?? '', kind: 'percent', amount: 0 }] });
+  };
+
+  const inputClassName = "px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="space-y-4 text-sm text-gray-700">
+      <div className="space-y-2">
+        <p className="font-medium">Start from</p>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="radio" checked={pricing.basis === 'suggested'} onChange={() => update({ basis: 'suggested' })} className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500" />
+          AI suggested price ({suggestedPrice || 'none'})
+        </label>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="radio" checked={pricing.basis === 'cost'} onChange={() => update({ basis: 'cost' })} className="h-4 w-4 text-indigo-600 border-gray-300 focus:ring-indigo-500" />
+            Unit cost
+          </label>
+          <input
+            type="number"
+            min={0}
+            step={0.01}
+            value={pricing.cost ?? ''}
+            onChange={(e) => update({ basis: 'cost', cost: e.target.value === '' ? undefined : toNumber(e.target.value) })}
+            className={`${inputClassName} w-28`}
+            aria-label={`Unit cost in ${currency}`}
+          />
+          {currency} plus
+          <input
+            type="number"
+            min={0}
+            value={pricing.markupPercent}
+            onChange={(e) => update({ markupPercent: toNumber(e.target.value) })}
+            className={`${inputClassName} w-20`}
+            aria-label="Markup percent"
+          />
+          % markup
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="font-medium">Rules</p>
+        {pricing.rules.length === 0 && <p className="text-gray-500">Every variation gets the same price until you add a rule.</p>}
+        {pricing.rules.map(rule => (
+          <div key={rule.id} className="flex flex-wrap items-center gap-2">
+            <select value={rule.kind} onChange={(e) => updateRule(rule.id, { kind: e.target.value as PriceRule['kind'] })} className={`${inputClassName} bg-white`} aria-label="Adjustment type">
+              <option value="percent">+ %</option>
+              <option value="amount">+ {currency}</option>
+            </select>
+            <input
+              type="number"
+              step={rule.kind === 'percent' ? 1 : 0.01}
+              value={rule.amount}
+              onChange={(e) => updateRule(rule.id, { amount: toNumber(e.target.value) })}
+              className={`${inputClassName} w-24`}
+              aria-label="Adjustment"
+            />
+            for
+            <select value={rule.attribute} onChange={(e) => updateRule(rule.id, { attribute: e.target.value })} className={`${inputClassName} bg-white`} aria-label="Attribute">
+              <option value="">Any attribute</option>
+              {attributeNames.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <input
+              type="text"
+              value={rule.value}
+              onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+              list={`price-rule-values-${rule.id}`}
+              placeholder="Value, e.g. Leather"
+              className={`${inputClassName} w-44`}
+              aria-label="Attribute value"
+            />
+            <datalist id={`price-rule-values-${rule.id}`}>
+              {attributeValues(rule.attribute).map(value => <option key={value} value={value} />)}
+            </datalist>
+            <button
+              type="button"
+              onClick={() => update({ rules: pricing.rules.filter(r => r.id !== rule.id) })}
+              className="text-gray-400 hover:text-red-600 px-1"
+              aria-label="Remove rule"
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={handleAddRule} className="font-medium text-indigo-600 hover:text-indigo-800">+ Add rule</button>
+        <p className="text-xs text-gray-500">Percentages of all matching rules are added up and applied to the starting price, then fixed amounts are added.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+        <label className="flex items-center gap-2">
+          Compare-at price
+          <input
+            type="number"
+            min={0}
+            value={pricing.compareAtPercent}
+            onChange={(e) => update({ compareAtPercent: Math.max(0, toNumber(e.target.value)) })}
+            className={`${inputClassName} w-20`}
+          />
+          % above (0 for none)
+        </label>
+        <label className="flex items-center gap-2">
+          Rounding
+          <select value={pricing.rounding} onChange={(e) => update({ rounding: e.target.value as PriceRounding })} className={`${inputClassName} bg-white`}>
+            {(Object.keys(PRICE_ROUNDING_LABELS) as PriceRounding[]).map(rounding => (
+              <option key={rounding} value={rounding}>{PRICE_ROUNDING_LABELS[rounding]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
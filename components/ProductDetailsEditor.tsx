@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { ProductDetails } from '../types';
+import { CopyButton } from './CopyButton';
+
+interface ProductDetailsEditorProps {
+  details: ProductDetails;
+  onChange: (details: ProductDetails) => void;
+  onRewriteField: (field: keyof ProductDetails, instruction: string) => Promise<void>;
+}
+
+interface EditableFieldProps {
+  label: string;
+  value: string;
+  onCommit: (value: string) => void;
+  onRewrite: (instruction: string) => Promise<void>;
+  multiline?: boolean;
+  rows?: number;
+  hint?: string;
+  maxLength?: number; // Soft limit, shown as a counter
+  inputClassName?: string;
+}
+
+// A text field that commits on blur, with an optional AI rewrite of just this field.
+export const EditableField: React.FC<EditableFieldProps> = ({
+  label,
+  value,
+  onCommit,
+  onRewrite,
+  multiline,
+  rows = 3,
+  hint,
+  maxLength,
+  inputClassName = '',
+}) => {
+  const [draft, setDraft] = useState(value);
+  const [isRewriteOpen, setIsRewriteOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const handleBlur = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  const handleRewrite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRewriting(true);
+    try {
+      await onRewrite(instruction);
+      setIsRewriteOpen(false);
+      setInstruction('');
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  const baseClassName = `block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 disabled:bg-gray-100 ${inputClassName}`;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <div className="flex items-center gap-2">
+          {maxLength && (
+            <span className={`text-xs ${draft.length > maxLength ? 'text-red-600' : 'text-gray-400'}`}>{draft.length}/{maxLength}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => setIsRewriteOpen(!isRewriteOpen)}
+            disabled={isRewriting}
+            className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+          >
+            Rewrite
+          </button>
+          <CopyButton textToCopy={draft} className="p-1 text-gray-500 hover:text-indigo-600" />
+        </div>
+      </div>
+      {isRewriteOpen && (
+        <form onSubmit={handleRewrite} className="flex gap-2 mb-2">
+          <input
+            type="text"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder="Optional: 'shorter', 'more luxurious'..."
+            className="flex-grow px-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            disabled={isRewriting}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={isRewriting}
+            className="px-3 py-1 text-xs font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isRewriting ? 'Rewriting...' : 'Go'}
+          </button>
+        </form>
+      )}
+      {multiline ? (
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={handleBlur}
+          rows={rows}
+          disabled={isRewriting}
+          className={baseClassName}
+        />
+      ) : (
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={handleBlur}
+          disabled={isRewriting}
+          className={baseClassName}
+        />
+      )}
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </div>
+  );
+};
+
+const splitList = (value: string, separator: RegExp): string[] => value.split(separator).map(item => item.trim()).filter(Boolean);
+
+export const ProductDetailsEditor: React.FC<ProductDetailsEditorProps> = ({ details, onChange, onRewriteField }) => {
+  const update = <K extends keyof ProductDetails>(field: K, value: ProductDetails[K]) => {
+    onChange({ ...details, [field]: value });
+  };
+
+  const fieldProps = (field: Exclude<keyof ProductDetails, 'names' | 'tags'>) => ({
+    value: details[field],
+    onCommit: (value: string) => update(field, value),
+    onRewrite: (instruction: string) => onRewriteField(field, instruction),
+  });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+      <div className="md:col-span-2 space-y-6">
+        <EditableField
+          label="Product names"
+          value={details.names.join('\n')}
+          onCommit={(value) => update('names', splitList(value, /\n/))}
+          onRewrite={(instruction) => onRewriteField('names', instruction)}
+          multiline
+          rows={Math.max(3, details.names.length)}
+          hint="One name per line. The first line is used as the product title."
+          inputClassName="font-semibold"
+        />
+        <EditableField label="Description" {...fieldProps('description')} multiline rows={8} />
+        <EditableField
+          label="Tags"
+          value={details.tags.join(', ')}
+          onCommit={(value) => update('tags', splitList(value, /,/))}
+          onRewrite={(instruction) => onRewriteField('tags', instruction)}
+          hint="Comma-separated."
+        />
+        <EditableField label="SEO title" {...fieldProps('seoTitle')} maxLength={60} />
+        <EditableField label="SEO description" {...fieldProps('seoDescription')} multiline rows={2} maxLength={160} />
+        <EditableField label="Social media caption" {...fieldProps('socialMediaCaption')} multiline rows={3} />
+      </div>
+      <div className="space-y-6">
+        <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
+          <EditableField label="Suggested price" {...fieldProps('suggestedPrice')} inputClassName="text-2xl font-bold text-indigo-900" />
+          <p className="text-xs text-indigo-700 mt-1">Based on product materials and dimensions.</p>
+        </div>
+        <EditableField label="Measurements" {...fieldProps('measurements')} multiline rows={2} />
+        <EditableField label="Shipping" {...fieldProps('shipping')} multiline rows={2} />
+        <EditableField label="Care instructions" {...fieldProps('careInstructions')} multiline rows={4} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { deleteProject, duplicateProject, listProjects, renameProject } from '../services/projectStore';
+
+interface ProjectListProps {
+  onOpenProject: (projectId: string) => void;
+  onNewProject: () => void;
+  // Keep the open project in step, so its autosave doesn't undo the change
+  onProjectRenamed: (projectId: string, name: string) => void;
+  onProjectDeleted: (projectId: string) => void;
+  onError: (message: string) => void;
+}
+
+export const ProjectList: React.FC<ProjectListProps> = ({ onOpenProject, onNewProject, onProjectRenamed, onProjectDeleted, onError }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error(err);
+      onError('Could not load saved projects.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [onError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleStartRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renamingId || !renameValue.trim()) return;
+    try {
+      await renameProject(renamingId, renameValue.trim());
+      onProjectRenamed(renamingId, renameValue.trim());
+      setRenamingId(null);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      onError('Could not rename the project.');
+    }
+  };
+
+  const handleDuplicate = async (projectId: string) => {
+    try {
+      await duplicateProject(projectId);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      onError('Could not duplicate the project.');
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      onProjectDeleted(project.id);
+      await refresh();
+    } catch (err) {
+      console.error(err);
+      onError('Could not delete the project.');
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Your Photoshoots</h2>
+          <p className="text-gray-600">Projects are saved in this browser and autosave as you work.</p>
+        </div>
+        <button
+          onClick={onNewProject}
+          className="px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+        >
+          New Photoshoot
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-center text-gray-500 py-12">Loading projects...</p>
+      ) : projects.length === 0 ? (
+        <div className="bg-white p-12 rounded-lg shadow-md border border-gray-200 text-center text-gray-500">
+          No saved photoshoots yet.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects.map(project => (
+            <div key={project.id} className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden flex flex-col">
+              <button
+                onClick={() => onOpenProject(project.id)}
+                className="block h-40 bg-gray-100 focus:outline-none"
+                aria-label={`Open ${project.name}`}
+              >
+                {project.thumbnail ? (
+                  <img src={`data:image/png;base64,${project.thumbnail}`} alt={project.name} className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-sm text-gray-400">No images yet</span>
+                )}
+              </button>
+              <div className="p-4 flex flex-col flex-grow">
+                {renamingId === project.id ? (
+                  <form onSubmit={handleRename} className="flex gap-2">
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      autoFocus
+                      className="flex-grow px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <button type="submit" className="text-sm font-medium text-indigo-600 hover:text-indigo-500">Save</button>
+                    <button type="button" onClick={() => setRenamingId(null)} className="text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+                  </form>
+                ) : (
+                  <h3 className="font-bold text-lg text-gray-800 truncate" title={project.name}>{project.name}</h3>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  {project.variationCount} variation{project.variationCount === 1 ? '' : 's'} · {project.imageCount} image{project.imageCount === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-gray-400 mb-4">Updated {new Date(project.updatedAt).toLocaleString()}</p>
+                <div className="mt-auto flex gap-3 text-sm">
+                  <button onClick={() => onOpenProject(project.id)} className="font-medium text-indigo-600 hover:text-indigo-500">Open</button>
+                  <button onClick={() => handleStartRename(project)} className="text-gray-600 hover:text-gray-800">Rename</button>
+                  <button onClick={() => handleDuplicate(project.id)} className="text-gray-600 hover:text-gray-800">Duplicate</button>
+                  <button onClick={() => handleDelete(project)} className="text-red-600 hover:text-red-500 ml-auto">Delete</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,40 @@
 
-import React from 'react';
-import { GeneratedContent, GeneratedImage } from '../types';
+import React, { useState } from 'react';
+import { GeneratedContent, GeneratedImage, Locale, PricingSettings, ProductDetails, VariationCopy } from '../types';
 import { ImageCard } from './ImageCard';
-import { downloadAllImagesAsZip, formatDimensions } from '../utils/fileUtils';
-import { generateShopifyCSV } from '../utils/shopifyUtils';
-import { DownloadIcon, ShopifyIcon, CopyIcon } from './icons';
+import { formatDimensionsBoth, formatWeight, getVariationDimensions } from '../utils/dimensions';
+import { DEFAULT_ZIP_PARTS, ZIP_PART_LABELS, ZipParts, downloadProjectZip } from '../utils/zipExport';
+import { EXPORTERS, ExportFormat, exportProductCsv, loadExportFormat, saveExportFormat } from '../utils/exporters';
+import { DownloadIcon, ShopifyIcon } from './icons';
 import { CopyButton } from './CopyButton';
+import { ProductDetailsEditor } from './ProductDetailsEditor';
+import { loadSetting, saveSetting } from '../utils/settingsStorage';
+import { getCurrentCutout } from '../utils/cutout';
+import { DerivativeSettings, loadDerivativeSettings, saveDerivativeSettings } from '../utils/derivatives';
+import { DerivativeSettingsPanel } from './DerivativeSettingsPanel';
+import { getBrandProfile } from '../utils/brandProfiles';
+import { LOCALES, SOURCE_LOCALE, TRANSLATION_LOCALES, formatPrice, getLocalizedDetails, loadLocaleSettings } from '../utils/locales';
+import { getPricing, priceVariation } from '../utils/pricing';
+import { PricingPanel } from './PricingPanel';
+import { VariationCopyEditor } from './VariationCopyEditor';
+
+const IMAGE_BASE_URL_SETTING = 'imageBaseUrl';
+const ZIP_PARTS_SETTING = 'zipParts';
 
 interface ResultsDisplayProps {
   content: GeneratedContent;
-  onEditImage: (variationId: string, imageId: string, prompt: string) => Promise<void>;
+  onEditImage: (variationId: string, imageId: string, prompt: string, baseVersionId?: string, mask?: string) => Promise<void>;
   onRegenerateImage: (variationId: string, image: GeneratedImage, newPrompt?: string) => Promise<void>;
+  onRestoreVersion: (variationId: string, imageId: string, versionId: string) => void;
+  onCreateCutout: (variationId: string, image: GeneratedImage, withShadow: boolean) => Promise<void>;
+  onRemoveCutout: (variationId: string, imageId: string) => void;
+  onWriteAltText: (variationId: string, image: GeneratedImage) => Promise<void>;
+  onUpdateDetails: (details: ProductDetails, locale: Locale) => void;
+  onRewriteField: (field: keyof ProductDetails, instruction: string, locale: Locale) => Promise<void>;
+  onTranslate: (locale: Locale) => Promise<void>;
+  onUpdatePricing: (pricing: PricingSettings) => void;
+  onUpdateVariationCopy: (variationId: string, copy: VariationCopy) => void;
+  onWriteVariationCopy: (variationId: string, field?: keyof VariationCopy, instruction?: string) => Promise<void>;
   editingImageId: string | null;
 }
 
@@ -18,23 +42,95 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
   content,
   onEditImage,
   onRegenerateImage,
+  onRestoreVersion,
+  onCreateCutout,
+  onRemoveCutout,
+  onWriteAltText,
+  onUpdateDetails,
+  onRewriteField,
+  onTranslate,
+  onUpdatePricing,
+  onUpdateVariationCopy,
+  onWriteVariationCopy,
   editingImageId,
 }) => {
-  const { baseDetails, variationResults } = content;
+  const { variationResults } = content;
+  // Market whose copy is shown and exported as CSV
+  const [locale, setLocale] = useState<Locale>(SOURCE_LOCALE);
+  const [translatingLocale, setTranslatingLocale] = useState<Locale | null>(null);
+  const [exchangeRates] = useState(() => loadLocaleSettings().exchangeRates);
+  const [imageBaseUrl, setImageBaseUrl] = useState<string>(() => loadSetting(IMAGE_BASE_URL_SETTING, ''));
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(loadExportFormat);
+  const [zipParts, setZipParts] = useState<ZipParts>(() => ({ ...DEFAULT_ZIP_PARTS, ...loadSetting<Partial<ZipParts>>(ZIP_PARTS_SETTING, {}) }));
+  const [derivativeSettings, setDerivativeSettings] = useState<DerivativeSettings>(loadDerivativeSettings);
+  const [isZipping, setIsZipping] = useState(false);
+  const [cutoutShadow, setCutoutShadow] = useState(false);
+  const [isCreatingCutouts, setIsCreatingCutouts] = useState(false);
+
+  const handleImageBaseUrlChange = (value: string) => {
+    setImageBaseUrl(value);
+    saveSetting(IMAGE_BASE_URL_SETTING, value);
+  };
+
+  const handleZipPartChange = (part: keyof ZipParts, included: boolean) => {
+    const next = { ...zipParts, [part]: included };
+    setZipParts(next);
+    saveSetting(ZIP_PARTS_SETTING, next);
+  };
+
+  const handleDerivativeSettingsChange = (settings: DerivativeSettings) => {
+    setDerivativeSettings(settings);
+    saveDerivativeSettings(settings);
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      await downloadProjectZip(content, { parts: zipParts, csvFormat: exportFormat, imageBaseUrl, derivatives: derivativeSettings, exchangeRates, vendor: getBrandProfile(content.brandProfileId).vendor });
+    } catch (err) {
+      console.error('ZIP export failed:', err);
+      alert(`Could not create ZIP file. ${err instanceof Error ? err.message : ''}`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  // Cuts out every finished studio shot that doesn't have an up-to-date cutout yet.
+  const handleCreateAllCutouts = async () => {
+    setIsCreatingCutouts(true);
+    try {
+      for (const result of variationResults) {
+        for (const image of result.images) {
+          if (image.category === 'studio' && image.status === 'done' && !getCurrentCutout(image)) {
+            await onCreateCutout(result.id, image, cutoutShadow);
+          }
+        }
+      }
+    } finally {
+      setIsCreatingCutouts(false);
+    }
+  };
 
-  const handleDownloadAll = () => {
-    downloadAllImagesAsZip(variationResults, baseDetails.names[0] || 'product');
+  const handleExportFormatChange = (format: ExportFormat) => {
+    setExportFormat(format);
+    saveExportFormat(format);
   };
 
-  const handleShopifyExport = () => {
-    generateShopifyCSV(content);
+  const handleCsvExport = () => {
+    exportProductCsv(exportFormat, content, { imageBaseUrl, imageDerivative: derivativeSettings.linkTo, locale, exchangeRates, vendor: getBrandProfile(content.brandProfileId).vendor });
   };
 
-  const handleCopyTags = () => {
-      const tagsString = baseDetails.tags.join(', ');
-      navigator.clipboard.writeText(tagsString);
+  const handleTranslate = async (target: Locale) => {
+    setTranslatingLocale(target);
+    try {
+      await onTranslate(target);
+    } finally {
+      setTranslatingLocale(null);
+    }
   };
 
+  const isTranslated = locale === SOURCE_LOCALE || !!content.translations?.[locale];
+
   const getVariationTitle = (variation: Record<string, string>): string => {
     // Exclude dimensions from the main title
     return Object.entries(variation)
@@ -43,8 +139,11 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
       .join(' / ');
   };
   
-  const primaryName = baseDetails.names[0] || 'Unnamed Product';
-  const alternativeNames = baseDetails.names.slice(1);
+  const allImages = variationResults.flatMap(result => result.images);
+  const finishedCount = allImages.filter(image => image.status === 'done' || image.status === 'error').length;
+  const isStillGenerating = finishedCount < allImages.length;
+  const flaggedCount = allImages.filter(image => image.quality && !image.quality.passed && image.quality.versionId === image.currentVersionId).length;
+
 
   return (
     <div className="space-y-12">
@@ -52,91 +151,196 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
       <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
           <div>
-            <h2 className="text-3xl font-extrabold text-gray-900">Your Photoshoot is Ready!</h2>
-            <p className="mt-2 text-lg text-gray-600">Review, edit, and download the generated assets for all product variations.</p>
+            <h2 className="text-3xl font-extrabold text-gray-900">{isStillGenerating ? 'Your Photoshoot is in Progress...' : 'Your Photoshoot is Ready!'}</h2>
+            <p className="mt-2 text-lg text-gray-600">
+              {isStillGenerating
+                ? `${finishedCount} of ${allImages.length} images finished. Images appear below as they are generated.`
+                : 'Review, edit, and download the generated assets for all product variations.'}
+            </p>
+            {flaggedCount > 0 && (
+              <p className="mt-1 text-sm font-medium text-amber-700">
+                {flaggedCount} image{flaggedCount === 1 ? '' : 's'} failed quality checks. Look for the "Flagged" badge.
+              </p>
+            )}
           </div>
           <div className="flex flex-col sm:flex-row gap-3 flex-shrink-0 w-full md:w-auto">
-             <button
-              onClick={handleShopifyExport}
-              className="flex-1 inline-flex items-center justify-center px-5 py-3 border border-gray-300 text-base font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
-              title="Download a CSV file formatted for Shopify import."
-            >
-              <ShopifyIcon />
-              Export CSV
-            </button>
+            <div className="flex-1 flex">
+              <select
+                value={exportFormat}
+                onChange={(e) => handleExportFormatChange(e.target.value as ExportFormat)}
+                className="px-3 border border-r-0 border-gray-300 rounded-l-md text-sm text-gray-700 bg-gray-50 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                aria-label="Export format"
+              >
+                {Object.values(EXPORTERS).map(exporter => (
+                  <option key={exporter.format} value={exporter.format}>{exporter.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleCsvExport}
+                className="flex-1 inline-flex items-center justify-center px-5 py-3 border border-gray-300 text-base font-medium rounded-r-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+                disabled={!isTranslated}
+                title={`Download a CSV file formatted for ${EXPORTERS[exportFormat].label} import, with the ${LOCALES[locale].label} copy.`}
+              >
+                {exportFormat === 'shopify' && <ShopifyIcon />}
+                Export CSV
+              </button>
+            </div>
             <button
               onClick={handleDownloadAll}
-              className="flex-1 inline-flex items-center justify-center px-5 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+              disabled={isZipping || !Object.values(zipParts).some(Boolean)}
+              className="flex-1 inline-flex items-center justify-center px-5 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 transition-all"
             >
               <DownloadIcon />
-              Download Images (.zip)
+              {isZipping ? 'Preparing ZIP...' : 'Download ZIP'}
             </button>
           </div>
         </div>
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <label htmlFor="image-base-url" className="block text-sm font-medium text-gray-700">Image base URL (optional)</label>
+          <input
+            id="image-base-url"
+            type="url"
+            value={imageBaseUrl}
+            onChange={(e) => handleImageBaseUrlChange(e.target.value)}
+            placeholder="https://cdn.example.com/products/my-sofa"
+            className="mt-1 block w-full max-w-xl px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">Upload the extracted ZIP contents to this location. The CSV will then reference every image and set each variant's own studio shot.</p>
+        </div>
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <p className="text-sm font-medium text-gray-700 mb-2">ZIP contents</p>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {(Object.keys(ZIP_PART_LABELS) as (keyof ZipParts)[]).map(part => (
+              <label key={part} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={zipParts[part]}
+                  onChange={(e) => handleZipPartChange(part, e.target.checked)}
+                  className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+                />
+                {part === 'csv' ? `${EXPORTERS[exportFormat].label} CSV` : ZIP_PART_LABELS[part]}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="mt-4 pt-4 border-t border-gray-100">
+          <DerivativeSettingsPanel settings={derivativeSettings} onChange={handleDerivativeSettingsChange} />
+        </div>
+        <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap items-center gap-4">
+          <button
+            onClick={handleCreateAllCutouts}
+            disabled={isCreatingCutouts || isStillGenerating}
+            className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400"
+          >
+            {isCreatingCutouts ? 'Creating cutouts...' : 'Create transparent cutouts for studio shots'}
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={cutoutShadow} onChange={(e) => setCutoutShadow(e.target.checked)} className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500" />
+            Soft contact shadow
+          </label>
+          <span className="text-xs text-gray-500">Cutouts are made in your browser and added to the ZIP next to each original.</span>
+        </div>
       </div>
 
       {/* Base Product Details */}
       <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
-        <h3 className="text-2xl font-bold text-gray-800 mb-6">Base Product Details</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            <div className="md:col-span-2 space-y-6">
-                <div>
-                    <h4 className="text-lg font-bold text-gray-900">{primaryName}</h4>
-                    {alternativeNames.length > 0 && (
-                        <div className="mt-2">
-                            <p className="text-sm text-gray-500 mb-1">Alternative names:</p>
-                            <div className="flex flex-wrap gap-2 items-center">
-                                {alternativeNames.map((name, i) => (
-                                    <span key={i} className="flex items-center text-sm text-gray-700 bg-gray-100 rounded-full px-3 py-1">
-                                        {name}
-                                        <CopyButton textToCopy={name} className="ml-2 p-1" />
-                                    </span>
-                                ))}
-                            </div>
-                        </div>
-                    )}
-                </div>
-
-                <div className="prose prose-sm max-w-none text-gray-600">
-                    {baseDetails.description.split('\n').map((p, i) => <p key={i}>{p}</p>)}
-                </div>
-                 <div className="relative">
-                    <div className="flex items-center justify-between mb-1">
-                        <p className="text-sm text-gray-500">Tags:</p>
-                         <button 
-                            onClick={handleCopyTags} 
-                            className="text-xs text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
-                        >
-                            <CopyIcon /> Copy All Tags
-                        </button>
-                    </div>
-                    <div className="flex flex-wrap gap-2">
-                        {baseDetails.tags.map(tag => (
-                            <span key={tag} className="px-2 py-1 bg-gray-200 text-gray-700 rounded-md text-xs font-medium">{tag}</span>
-                        ))}
-                    </div>
-                </div>
-            </div>
-            <div className="space-y-4">
-                <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4">
-                    <p className="text-sm font-medium text-indigo-800">Suggested Price</p>
-                    <p className="text-3xl font-bold text-indigo-900">{baseDetails.suggestedPrice}</p>
-                    <p className="text-xs text-indigo-700 mt-1">Based on product materials and dimensions.</p>
-                </div>
-            </div>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-2xl font-bold text-gray-800 mb-1">Base Product Details</h3>
+            <p className="text-sm text-gray-500">Edit any field in place, or ask the AI to rewrite just that field. Exports use these values.</p>
+          </div>
+          <div className="flex rounded-md shadow-sm flex-shrink-0" role="group" aria-label="Copy language">
+            {[SOURCE_LOCALE, ...TRANSLATION_LOCALES].map((option, i, all) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setLocale(option)}
+                className={`px-3 py-2 text-sm font-medium border border-gray-300 ${i === 0 ? 'rounded-l-md' : '-ml-px'} ${i === all.length - 1 ? 'rounded-r-md' : ''} ${option === locale ? 'bg-indigo-600 text-white border-indigo-600 z-10' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                title={LOCALES[option].label}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
         </div>
+        {isTranslated ? (
+          <>
+            {locale !== SOURCE_LOCALE && (
+              <div className="mb-4 flex items-center justify-between gap-4 text-sm bg-gray-50 p-3 rounded-md">
+                <span className="text-gray-600">{LOCALES[locale].label}: translated from the {SOURCE_LOCALE} copy, prices in {LOCALES[locale].currency}.</span>
+                <button
+                  type="button"
+                  onClick={() => handleTranslate(locale)}
+                  disabled={translatingLocale !== null}
+                  className="text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 whitespace-nowrap"
+                  title="Replaces this market's copy, including your edits to it"
+                >
+                  {translatingLocale === locale ? 'Translating...' : `Re-translate from ${SOURCE_LOCALE}`}
+                </button>
+              </div>
+            )}
+            <ProductDetailsEditor
+              key={locale}
+              details={getLocalizedDetails(content, locale)}
+              onChange={(details) => onUpdateDetails(details, locale)}
+              onRewriteField={(field, instruction) => onRewriteField(field, instruction, locale)}
+            />
+          </>
+        ) : (
+          <div className="text-center py-10 border-2 border-dashed border-gray-200 rounded-md">
+            <p className="text-gray-600 mb-4">No {LOCALES[locale].label} copy yet.</p>
+            <button
+              type="button"
+              onClick={() => handleTranslate(locale)}
+              disabled={translatingLocale !== null}
+              className="px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400"
+            >
+              {translatingLocale === locale ? 'Translating...' : `Translate to ${LOCALES[locale].language}`}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="text-2xl font-bold text-gray-800 mb-1">Variation Pricing</h3>
+        <p className="text-sm text-gray-500 mb-6">Each variation's price is shown with it below and exported on its own variant row.</p>
+        <PricingPanel
+          pricing={getPricing(content)}
+          suggestedPrice={content.baseDetails.suggestedPrice}
+          variationResults={variationResults}
+          onChange={onUpdatePricing}
+        />
       </div>
 
       {/* Image Sections per Variation */}
       <div className="space-y-10">
         {variationResults.map(result => {
-            const formattedDims = formatDimensions(result.variation.Dimensions);
+            const dimensions = getVariationDimensions(result);
+            const formattedDims = [
+                dimensions && formatDimensionsBoth(dimensions),
+                result.weight && `${formatWeight(result.weight, 'metric')} (${formatWeight(result.weight, 'imperial')})`,
+            ].filter(Boolean).join(', ');
+            const prices = priceVariation(content, result, locale, exchangeRates);
             return (
             <div key={result.id}>
                 <div className="mb-6 pb-2 border-b border-gray-300">
                     <h3 className="text-2xl font-bold text-gray-800">
                         Variation: <span className="text-indigo-600">{getVariationTitle(result.variation)}</span>
+                        {prices && (
+                            <span className="ml-3 text-xl font-semibold text-gray-700">
+                                {formatPrice(prices.price, locale)}
+                                {prices.compareAtPrice !== undefined && (
+                                    <span className="ml-2 text-base font-normal text-gray-400 line-through">{formatPrice(prices.compareAtPrice, locale)}</span>
+                                )}
+                            </span>
+                        )}
                     </h3>
+                    <VariationCopyEditor
+                        copy={result.copy}
+                        onChange={(copy) => onUpdateVariationCopy(result.id, copy)}
+                        onRewriteField={(field, instruction) => onWriteVariationCopy(result.id, field, instruction)}
+                        onWrite={() => onWriteVariationCopy(result.id)}
+                    />
                     {formattedDims && (
                         <div className="mt-2 flex items-center gap-2 bg-gray-50 p-2 rounded w-fit">
                             <span className="text-sm font-mono text-gray-700">{formattedDims}</span>
@@ -149,8 +353,12 @@ export const ResultsDisplay: React.FC<ResultsDisplayProps> = ({
                     <ImageCard
                     key={image.id}
                     image={image}
-                    onEdit={(imageId, prompt) => onEditImage(result.id, imageId, prompt)}
+                    onEdit={(imageId, prompt, baseVersionId, mask) => onEditImage(result.id, imageId, prompt, baseVersionId, mask)}
                     onRegenerate={(img, newPrompt) => onRegenerateImage(result.id, img, newPrompt)}
+                    onRestoreVersion={(imageId, versionId) => onRestoreVersion(result.id, imageId, versionId)}
+                    onCreateCutout={(img, withShadow) => onCreateCutout(result.id, img, withShadow)}
+                    onRemoveCutout={(imageId) => onRemoveCutout(result.id, imageId)}
+                    onWriteAltText={(img) => onWriteAltText(result.id, img)}
                     isEditing={editingImageId === image.id}
                     />
                 ))}
@@ -0,0 +1,182 @@
+import React, { useMemo } from 'react';
+import { AspectRatioSelection, Locale, ParsedSpecSheet, ShotCounts, ShotTemplate } from '../types';
+import { buildDefaultShotList, countVariationImages, fillTemplate, usesCreativeStyle } from '../utils/shotTemplates';
+import { estimateGenerationCost, formatCost, loadPriceTable } from '../services/usagePricing';
+import { loadUsageLog } from '../services/usageTracker';
+import { GenerateIcon } from './icons';
+
+interface ShotListBuilderProps {
+  specSheet: ParsedSpecSheet;
+  templates: ShotTemplate[];
+  shotList: ShotCounts[];
+  setShotList: (shotList: ShotCounts[]) => void;
+  styleCount: number;
+  aspectRatios: AspectRatioSelection;
+  // For the cost estimate: reference images sent with every shot, whether each shot gets a vision review,
+  // and the markets the copy is translated for
+  sourceImageCount: number;
+  visionReview: boolean;
+  targetLocales: Locale[];
+  onConfirm: () => void;
+  onBack: () => void;
+  isGenerating: boolean;
+}
+
+// Upper bound per cell so a typo can't queue hundreds of images
+const MAX_SHOTS_PER_TEMPLATE = 10;
+
+const clampCount = (value: string): number => Math.min(MAX_SHOTS_PER_TEMPLATE, Math.max(0, Math.floor(Number(value) || 0)));
+
+export const ShotListBuilder: React.FC<ShotListBuilderProps> = ({
+  specSheet,
+  templates,
+  shotList,
+  setShotList,
+  styleCount,
+  aspectRatios,
+  sourceImageCount,
+  visionReview,
+  targetLocales,
+  onConfirm,
+  onBack,
+  isGenerating,
+}) => {
+  const variationTotals = shotList.map(counts => countVariationImages(templates, counts, styleCount, aspectRatios));
+  const totalImages = variationTotals.reduce((sum, count) => sum + count, 0);
+  const usageHistory = useMemo(loadUsageLog, []);
+  const estimate = estimateGenerationCost(
+    { imageCount: totalImages, sourceImages: sourceImageCount, visionReview, translations: targetLocales.length },
+    usageHistory,
+    loadPriceTable(),
+  );
+
+  const setCount = (variationIndex: number, templateId: string, value: string) => {
+    setShotList(shotList.map((counts, i) => i === variationIndex ? { ...counts, [templateId]: clampCount(value) } : counts));
+  };
+
+  const setCountForAll = (templateId: string, value: string) => {
+    setShotList(shotList.map(counts => ({ ...counts, [templateId]: clampCount(value) })));
+  };
+
+  // Shared value for the "All" column, or undefined when variations differ
+  const getCommonCount = (templateId: string): number | undefined => {
+    const first = shotList[0]?.[templateId] ?? 0;
+    return shotList.every(counts => (counts[templateId] ?? 0) === first) ? first : undefined;
+  };
+
+  const inputClassName = "w-16 px-2 py-1 border border-gray-300 rounded-md text-sm text-center focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-semibold text-lg">Shot list</h3>
+            <p className="text-sm text-gray-500">Set how many of each shot to produce. Use the "All" column to change every variation at once.</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShotList(buildDefaultShotList(templates, specSheet.variations.length))}
+            className="px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Reset to defaults
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left align-bottom">
+                <th className="pb-2 pr-4">Shot</th>
+                <th className="px-2 pb-2 text-center">All</th>
+                {specSheet.variations.map((variation, index) => (
+                  <th key={index} className="px-2 pb-2 text-center font-medium text-gray-600 max-w-[8rem]">
+                    <span className="block truncate" title={Object.values(variation.attributes).join(', ')}>
+                      {Object.values(variation.attributes).filter(Boolean).join(', ') || `Variation ${index + 1}`}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map(template => {
+                const commonCount = getCommonCount(template.id);
+                return (
+                  <tr key={template.id} className="border-t border-gray-100">
+                    <td className="py-2 pr-4">
+                      <span className="font-medium text-gray-800">{fillTemplate(template.title, { styleLabel: 'Style' })}</span>
+                      <span className="block text-xs text-gray-500">
+                        {template.category === 'studio' ? 'Studio' : 'Lifestyle'}
+                        {usesCreativeStyle(template) && ` · × ${styleCount} style${styleCount === 1 ? '' : 's'}`}
+                      </span>
+                    </td>
+                    <td className="px-2 py-2 text-center bg-gray-50">
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_SHOTS_PER_TEMPLATE}
+                        value={commonCount ?? ''}
+                        placeholder="mixed"
+                        onChange={(e) => setCountForAll(template.id, e.target.value)}
+                        className={inputClassName}
+                        aria-label={`${template.title} for all variations`}
+                      />
+                    </td>
+                    {shotList.map((counts, index) => (
+                      <td key={index} className="px-2 py-2 text-center">
+                        <input
+                          type="number"
+                          min={0}
+                          max={MAX_SHOTS_PER_TEMPLATE}
+                          value={counts[template.id] ?? 0}
+                          onChange={(e) => setCount(index, template.id, e.target.value)}
+                          className={inputClassName}
+                          aria-label={`${template.title} for variation ${index + 1}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+              <tr className="border-t border-gray-200 text-gray-600">
+                <td className="py-2 pr-4 text-xs">Images per variation</td>
+                <td className="px-2 py-2 text-center bg-gray-50"></td>
+                {variationTotals.map((count, index) => (
+                  <td key={index} className="px-2 py-2 text-center font-medium">{count}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-4 text-xs text-gray-500">Counts include one image per creative style for styled shots and one per selected aspect ratio.</p>
+      </div>
+
+      <p className="text-center text-lg">
+        <span className="font-bold">{totalImages}</span> image{totalImages === 1 ? '' : 's'} will be generated across {specSheet.variations.length} variation{specSheet.variations.length === 1 ? '' : 's'}.
+      </p>
+      <p className="text-center text-sm text-gray-600 -mt-4">
+        Estimated cost: <span className="font-semibold">~{formatCost(estimate.cost)}</span> for {estimate.calls} model call{estimate.calls === 1 ? '' : 's'}
+        {estimate.fromHistory ? ', based on your recent calls.' : ', based on typical token counts.'} Automatic quality retries cost extra.
+      </p>
+
+      <div className="flex justify-center gap-4 pt-4">
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={isGenerating}
+          className="px-6 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={totalImages === 0 || isGenerating}
+          className="flex items-center justify-center w-full max-w-xs px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all"
+        >
+          <GenerateIcon />
+          Generate All Variations
+        </button>
+      </div>
+    </div>
+  );
+};
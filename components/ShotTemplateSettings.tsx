@@ -0,0 +1,239 @@
+import React, { useRef, useState } from 'react';
+import { AspectRatio, ImageCategory, ShotInstructions, ShotTemplate, ShotTemplateLibrary, ShotTemplateUsage } from '../types';
+import { ASPECT_RATIOS } from '../utils/imageUtils';
+import { DEFAULT_SHOT_TEMPLATES, TEMPLATE_PLACEHOLDERS, loadShotTemplates, saveShotTemplates, validateShotTemplates } from '../utils/shotTemplates';
+
+interface ShotTemplateSettingsProps {
+  onClose: () => void;
+}
+
+const USAGE_LABELS: Record<ShotTemplateUsage, string> = {
+  always: 'Every product',
+  singleVariation: 'Single-variation products',
+  multipleVariations: 'Multi-variation products',
+  manual: 'Only when added to the shot list',
+};
+
+const INSTRUCTION_LABELS: Record<keyof ShotInstructions, string> = {
+  photographyStyle: 'Photography style',
+  preservationInstruction: 'Preservation instruction',
+  cleanImageInstruction: 'Clean image instruction',
+};
+
+// Lowercase, underscore-separated id derived from the title, made unique within the library
+const makeTemplateId = (title: string, templates: ShotTemplate[]): string => {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'shot';
+  let id = base;
+  for (let i = 2; templates.some(t => t.id === id); i++) id = `${base}_${i}`;
+  return id;
+};
+
+export const ShotTemplateSettings: React.FC<ShotTemplateSettingsProps> = ({ onClose }) => {
+  const [library, setLibrary] = useState<ShotTemplateLibrary>(loadShotTemplates);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [savedMessage, setSavedMessage] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateLibrary = (next: ShotTemplateLibrary) => {
+    setLibrary(next);
+    setSavedMessage('');
+  };
+
+  const updateInstruction = (key: keyof ShotInstructions, value: string) => {
+    updateLibrary({ ...library, instructions: { ...library.instructions, [key]: value } });
+  };
+
+  const updateTemplate = (index: number, changes: Partial<ShotTemplate>) => {
+    updateLibrary({ ...library, templates: library.templates.map((t, i) => i === index ? { ...t, ...changes } : t) });
+  };
+
+  const handleAddTemplate = () => {
+    const template: ShotTemplate = {
+      id: makeTemplateId('New shot', library.templates),
+      title: 'New shot',
+      description: '',
+      category: 'studio',
+      aspectRatio: '1:1',
+      when: 'always',
+      prompt: 'Using the provided images as a visual guide, create a professional product photo of the {productName}. Variation details: {variationDetails}. {photographyStyle} {userInstructions} {preservationInstruction} {cleanImageInstruction}',
+    };
+    updateLibrary({ ...library, templates: [...library.templates, template] });
+  };
+
+  const handleDuplicateTemplate = (index: number) => {
+    const source = library.templates[index];
+    const copy = { ...source, id: makeTemplateId(source.id, library.templates), title: `${source.title} (copy)` };
+    updateLibrary({ ...library, templates: [...library.templates.slice(0, index + 1), copy, ...library.templates.slice(index + 1)] });
+  };
+
+  const handleDeleteTemplate = (index: number) => {
+    updateLibrary({ ...library, templates: library.templates.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = () => {
+    const problems = validateShotTemplates(library);
+    setErrors(problems);
+    if (problems.length > 0) return;
+    saveShotTemplates(library);
+    setSavedMessage('Templates saved. They apply to the next photoshoot.');
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Replace all templates with the built-in defaults?')) return;
+    updateLibrary(DEFAULT_SHOT_TEMPLATES);
+    setErrors([]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(library, null, 2)], { type: 'application/json' });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.setAttribute("href", url);
+    link.setAttribute("download", "shot_templates.json");
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = JSON.parse(await file.text());
+      const problems = validateShotTemplates(imported);
+      setErrors(problems);
+      if (problems.length === 0) updateLibrary(imported as ShotTemplateLibrary);
+    } catch {
+      setErrors([`${file.name} is not valid JSON.`]);
+    }
+  };
+
+  const inputClassName = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+  const buttonClassName = "px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50";
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Shot Templates</h2>
+          <p className="text-gray-600">Each template is one shot in the photoshoot. Edit the prompts to change what gets generated.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => fileInputRef.current?.click()} className={buttonClassName}>Import JSON</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          <button type="button" onClick={handleExport} className={buttonClassName}>Export JSON</button>
+          <button type="button" onClick={handleReset} className={buttonClassName}>Reset to defaults</button>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="font-semibold text-lg mb-1">Placeholders</h3>
+        <p className="text-sm text-gray-500 mb-2">
+          Use these in titles, descriptions and prompts. A template that uses a style placeholder is generated once per selected creative style.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+            <code key={placeholder} className="px-2 py-1 bg-gray-100 rounded text-xs text-gray-700">{placeholder}</code>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+        <h3 className="font-semibold text-lg">Shared instructions</h3>
+        {(Object.keys(INSTRUCTION_LABELS) as (keyof ShotInstructions)[]).map(key => (
+          <label key={key} className="block text-sm">
+            <span className="text-gray-700 font-medium">{INSTRUCTION_LABELS[key]}</span>
+            <code className="ml-2 text-xs text-gray-400">{`{${key}}`}</code>
+            <textarea
+              value={library.instructions[key]}
+              onChange={(e) => updateInstruction(key, e.target.value)}
+              rows={3}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+        ))}
+        <p className="text-xs text-gray-500">The preservation and clean image instructions are also added to every image edit.</p>
+      </div>
+
+      {library.templates.map((template, index) => (
+        <div key={index} className="bg-white p-6 rounded-lg shadow-md border border-gray-200 space-y-4">
+          <div className="flex items-center justify-between">
+            <code className="text-xs text-gray-400">{template.id}</code>
+            <div className="flex gap-3 text-sm">
+              <button type="button" onClick={() => handleDuplicateTemplate(index)} className="text-indigo-600 hover:text-indigo-800">Duplicate</button>
+              <button type="button" onClick={() => handleDeleteTemplate(index)} className="text-red-600 hover:text-red-500">Delete</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block text-sm">
+              <span className="text-gray-700 font-medium">Title</span>
+              <input type="text" value={template.title} onChange={(e) => updateTemplate(index, { title: e.target.value })} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700 font-medium">Description</span>
+              <input type="text" value={template.description} onChange={(e) => updateTemplate(index, { description: e.target.value })} className={`${inputClassName} mt-1`} />
+            </label>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <label className="block text-sm">
+              <span className="text-gray-700 font-medium">Category</span>
+              <select value={template.category} onChange={(e) => updateTemplate(index, { category: e.target.value as ImageCategory })} className={`${inputClassName} mt-1`}>
+                <option value="studio">Studio</option>
+                <option value="lifestyle">Lifestyle</option>
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700 font-medium">Default aspect ratio</span>
+              <select value={template.aspectRatio} onChange={(e) => updateTemplate(index, { aspectRatio: e.target.value as AspectRatio })} className={`${inputClassName} mt-1`}>
+                {ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="text-gray-700 font-medium">Used for</span>
+              <select value={template.when} onChange={(e) => updateTemplate(index, { when: e.target.value as ShotTemplateUsage })} className={`${inputClassName} mt-1`}>
+                {(Object.keys(USAGE_LABELS) as ShotTemplateUsage[]).map(usage => <option key={usage} value={usage}>{USAGE_LABELS[usage]}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Prompt</span>
+            <textarea
+              value={template.prompt}
+              onChange={(e) => updateTemplate(index, { prompt: e.target.value })}
+              rows={5}
+              className={`${inputClassName} mt-1 font-mono text-xs`}
+            />
+          </label>
+        </div>
+      ))}
+
+      <button type="button" onClick={handleAddTemplate} className={buttonClassName}>+ Add template</button>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      {savedMessage && <p className="text-sm text-green-700">{savedMessage}</p>}
+
+      <div className="flex justify-center gap-4 pt-4">
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-6 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          className="w-full max-w-xs px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-all"
+        >
+          Save Templates
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useState } from 'react';
+import { Dimensions, ParsedSpecSheet, SpecSheetVariation } from '../types';
+import { formatDimensionsBoth, formatWeight, parseDimensions, parseWeight } from '../utils/dimensions';
+
+interface SpecSheetReviewProps {
+  specSheet: ParsedSpecSheet;
+  setSpecSheet: (specSheet: ParsedSpecSheet) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+  isGenerating: boolean;
+}
+
+// Attribute names in order of first appearance across all variations
+const getAttributeNames = (specSheet: ParsedSpecSheet): string[] => {
+  const names: string[] = [];
+  specSheet.variations.forEach(v => Object.keys(v.attributes).forEach(key => {
+    if (!names.includes(key)) names.push(key);
+  }));
+  return names;
+};
+
+// Indexes of variations whose attribute values repeat an earlier one (trimmed, ignoring case), with that earlier index.
+// They would share an image folder and a set of option values, which the store platforms reject.
+const findDuplicateVariations = (specSheet: ParsedSpecSheet, attributeNames: string[]): Map<number, number> => {
+  const firstIndexByKey = new Map<string, number>();
+  const duplicates = new Map<number, number>();
+  specSheet.variations.forEach((v, index) => {
+    const key = JSON.stringify(attributeNames.map(name => (v.attributes[name] ?? '').trim().toLowerCase()));
+    const first = firstIndexByKey.get(key);
+    if (first === undefined) {
+      firstIndexByKey.set(key, index);
+    } else {
+      duplicates.set(index, first);
+    }
+  });
+  return duplicates;
+};
+
+const validate = (specSheet: ParsedSpecSheet, attributeNames: string[], duplicates: Map<number, number>): string | null => {
+  if (!specSheet.productName.trim()) return 'Product name is required.';
+  if (specSheet.variations.length === 0) return 'Add at least one variation.';
+  if (attributeNames.some(name => !name.trim())) return 'Attribute names cannot be empty.';
+  const lowerNames = attributeNames.map(name => name.trim().toLowerCase());
+  if (new Set(lowerNames).size !== lowerNames.length) return 'Attribute names must be unique.';
+  const [duplicate] = duplicates;
+  if (duplicate) return `Variations ${duplicate[1] + 1} and ${duplicate[0] + 1} are identical. Change or delete one of them.`;
+  return null;
+};
+
+export const SpecSheetReview: React.FC<SpecSheetReviewProps> = ({
+  specSheet,
+  setSpecSheet,
+  onConfirm,
+  onBack,
+  isGenerating,
+}) => {
+  const [newAttributeName, setNewAttributeName] = useState('');
+  const attributeNames = getAttributeNames(specSheet);
+  const duplicates = findDuplicateVariations(specSheet, attributeNames);
+  const validationError = validate(specSheet, attributeNames, duplicates);
+
+  const updateVariations = (variations: ParsedSpecSheet['variations']) => {
+    setSpecSheet({ ...specSheet, variations });
+  };
+
+  const updateVariation = (index: number, update: (variation: SpecSheetVariation) => SpecSheetVariation) => {
+    updateVariations(specSheet.variations.map((v, i) => i === index ? update(v) : v));
+  };
+
+  // Editing the Dimensions text re-reads the measurements; a separately entered seat height is kept.
+  const handleCellChange = (index: number, attribute: string, value: string) => {
+    updateVariation(index, v => {
+      if (attribute.toLowerCase() !== 'dimensions') return { ...v, attributes: { ...v.attributes, [attribute]: value } };
+      const parsed = parseDimensions(value);
+      const seatHeight = parsed?.seatHeight ?? v.dimensions?.seatHeight;
+      const dimensions: Dimensions | undefined = parsed || seatHeight ? { ...parsed, ...(seatHeight ? { seatHeight } : {}) } : undefined;
+      return { ...v, attributes: { ...v.attributes, [attribute]: value }, dimensions };
+    });
+  };
+
+  const handleWeightChange = (index: number, value: string) => {
+    updateVariation(index, v => ({ ...v, weight: parseWeight(value) ?? undefined }));
+  };
+
+  // Returns false when another column already has the name, since its values would be overwritten.
+  const handleRenameAttribute = (oldName: string, newName: string): boolean => {
+    if (attributeNames.some(existing => existing !== oldName && existing.toLowerCase() === newName.toLowerCase())) return false;
+    // Rebuild each attribute map so the column keeps its position.
+    updateVariations(specSheet.variations.map(v => ({
+      ...v,
+      attributes: Object.fromEntries(Object.entries(v.attributes).map(([key, value]) => [key === oldName ? newName : key, value])),
+    })));
+    return true;
+  };
+
+  const handleRemoveAttribute = (name: string) => {
+    updateVariations(specSheet.variations.map(v => ({
+      ...v,
+      attributes: Object.fromEntries(Object.entries(v.attributes).filter(([key]) => key !== name)),
+    })));
+  };
+
+  const handleAddAttribute = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newAttributeName.trim();
+    if (!name || attributeNames.some(existing => existing.toLowerCase() === name.toLowerCase())) return;
+    updateVariations(specSheet.variations.map(v => ({ ...v, attributes: { ...v.attributes, [name]: '' } })));
+    setNewAttributeName('');
+  };
+
+  const handleAddVariation = () => {
+    updateVariations([...specSheet.variations, { attributes: Object.fromEntries(attributeNames.map(name => [name, ''])) }]);
+  };
+
+  const handleDuplicateVariation = (index: number) => {
+    const original = specSheet.variations[index];
+    const copy = { ...original, attributes: { ...original.attributes } };
+    updateVariations([...specSheet.variations.slice(0, index + 1), copy, ...specSheet.variations.slice(index + 1)]);
+  };
+
+  const handleDeleteVariation = (index: number) => {
+    updateVariations(specSheet.variations.filter((_, i) => i !== index));
+  };
+
+  const inputClassName = "w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="w-full space-y-6">
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <h3 className="font-semibold text-lg mb-1">Product</h3>
+        <p className="text-sm text-gray-500 mb-4">Check what was read from the spec sheet. Nothing is generated until you confirm the shot list.</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Product name</span>
+            <input
+              type="text"
+              value={specSheet.productName}
+              onChange={(e) => setSpecSheet({ ...specSheet, productName: e.target.value })}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="text-gray-700 font-medium">Model number</span>
+            <input
+              type="text"
+              value={specSheet.modelNo}
+              onChange={(e) => setSpecSheet({ ...specSheet, modelNo: e.target.value })}
+              className={`${inputClassName} mt-1 font-mono`}
+            />
+            <span className="text-xs text-gray-500">Used as the SKU prefix in exports.</span>
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="font-semibold text-lg">Variations ({specSheet.variations.length})</h3>
+            <p className="text-sm text-gray-500">Edit values in place. Click a column name to rename the attribute.</p>
+          </div>
+          <button
+            type="button"
+            onClick={handleAddVariation}
+            className="px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            + Add variation
+          </button>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="w-8"></th>
+                {attributeNames.map(name => (
+                  <th key={name} className="px-2 pb-2 text-left align-bottom">
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="text"
+                        defaultValue={name}
+                        onBlur={(e) => {
+                          // A rejected rename puts the old name back
+                          if (e.target.value !== name && !handleRenameAttribute(name, e.target.value.trim())) {
+                            e.target.value = name;
+                          }
+                        }}
+                        className={`${inputClassName} font-semibold bg-gray-50`}
+                        aria-label={`Rename attribute ${name}`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveAttribute(name)}
+                        className="text-gray-400 hover:text-red-600 px-1"
+                        title={`Remove ${name}`}
+                        aria-label={`Remove attribute ${name}`}
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  </th>
+                ))}
+                <th className="px-2 pb-2 text-left align-bottom font-semibold text-gray-700 whitespace-nowrap">Weight</th>
+                <th className="w-32"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {specSheet.variations.map((variation, index) => (
+                <tr key={index} className={`border-t border-gray-100 ${duplicates.has(index) ? 'bg-amber-50' : ''}`}>
+                  <td className="py-2 text-gray-400 text-xs">{index + 1}</td>
+                  {attributeNames.map(name => {
+                    const value = variation.attributes[name] ?? '';
+                    const isDimensions = name.toLowerCase() === 'dimensions';
+                    const formatted = isDimensions && variation.dimensions ? formatDimensionsBoth(variation.dimensions) : '';
+                    return (
+                      <td key={name} className="px-2 py-2 align-top">
+                        <input
+                          type="text"
+                          value={value}
+                          onChange={(e) => handleCellChange(index, name, e.target.value)}
+                          className={`${inputClassName} ${isDimensions ? 'font-mono' : ''}`}
+                        />
+                        {isDimensions && value && (
+                          <span className={`block mt-1 text-xs ${formatted ? 'text-gray-500' : 'text-amber-600'}`}>
+                            {formatted || 'Unrecognized format, expected e.g. 240*100*78CM or W 94" x D 39" x H 30"'}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-2 py-2 align-top w-28">
+                    {/* Keyed by the parsed value so the field resets to it after each edit */}
+                    <input
+                      key={variation.weight?.kg ?? 'none'}
+                      type="text"
+                      defaultValue={variation.weight ? formatWeight(variation.weight, 'metric') : ''}
+                      onBlur={(e) => handleWeightChange(index, e.target.value)}
+                      placeholder="e.g. 45 kg"
+                      className={inputClassName}
+                      aria-label={`Weight of variation ${index + 1}`}
+                    />
+                    {variation.weight && (
+                      <span className="block mt-1 text-xs text-gray-500">{formatWeight(variation.weight, 'imperial')}</span>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 align-top whitespace-nowrap text-right">
+                    <button type="button" onClick={() => handleDuplicateVariation(index)} className="text-indigo-600 hover:text-indigo-800 mr-3">Duplicate</button>
+                    <button type="button" onClick={() => handleDeleteVariation(index)} className="text-red-600 hover:text-red-500">Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleAddAttribute} className="mt-4 flex gap-2 max-w-sm">
+          <input
+            type="text"
+            value={newAttributeName}
+            onChange={(e) => setNewAttributeName(e.target.value)}
+            placeholder="New attribute, e.g. Leg finish"
+            className={inputClassName}
+          />
+          <button type="submit" disabled={!newAttributeName.trim()} className="px-3 py-1 text-sm font-medium rounded-md text-indigo-600 hover:text-indigo-800 disabled:text-gray-400 whitespace-nowrap">
+            Add attribute
+          </button>
+        </form>
+      </div>
+
+      {validationError && (
+        <p className="text-center text-sm text-red-600">{validationError}</p>
+      )}
+
+      <div className="flex justify-center gap-4 pt-4">
+        <button
+          type="button"
+          onClick={onBack}
+          disabled={isGenerating}
+          className="px-6 py-3 border border-gray-300 text-base font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={!!validationError || isGenerating}
+          className="flex items-center justify-center w-full max-w-xs px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-all"
+        >
+          Continue to Shot List
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../types';
+import { listProjects } from '../services/projectStore';
+import { DEFAULT_PRICE_TABLE, ModelPrice, PriceTable, UsageSummary, formatCost, loadPriceTable, savePriceTable, summarizeUsage } from '../services/usagePricing';
+import { UsageRecord, clearUsageLog, loadUsageLog, subscribeToUsage } from '../services/usageTracker';
+
+interface UsagePanelProps {
+  onClose: () => void;
+}
+
+interface RunGroup {
+  runId?: string;
+  startedAt: number;
+  records: UsageRecord[];
+}
+
+interface ProjectGroup {
+  projectId?: string;
+  lastUsedAt: number;
+  records: UsageRecord[];
+  runs: RunGroup[];
+}
+
+// Groups the log by project, then by run; records without a run (edits, retries, rewrites) form their own group.
+const groupUsage = (records: UsageRecord[]): ProjectGroup[] => {
+  const projects = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = record.projectId ?? '';
+    projects.set(key, [...(projects.get(key) ?? []), record]);
+  });
+  return [...projects.entries()]
+    .map(([projectId, projectRecords]) => {
+      const runs = new Map<string, UsageRecord[]>();
+      projectRecords.forEach(record => {
+        const key = record.runId ?? '';
+        runs.set(key, [...(runs.get(key) ?? []), record]);
+      });
+      return {
+        projectId: projectId || undefined,
+        lastUsedAt: Math.max(...projectRecords.map(record => record.timestamp)),
+        records: projectRecords,
+        runs: [...runs.entries()]
+          .map(([runId, runRecords]) => ({ runId: runId || undefined, startedAt: Math.min(...runRecords.map(record => record.timestamp)), records: runRecords }))
+          .sort((a, b) => a.startedAt - b.startedAt),
+      };
+    })
+    .sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+const formatTokens = (count: number): string => count >= 10_000 ? `${Math.round(count / 1000)}k` : count.toLocaleString();
+
+const SummaryCells: React.FC<{ summary: UsageSummary }> = ({ summary }) => (
+  <>
+    <td className="px-3 py-2 text-right">{summary.calls}</td>
+    <td className="px-3 py-2 text-right">{summary.outputImages}</td>
+    <td className="px-3 py-2 text-right">{formatTokens(summary.inputTokens)} / {formatTokens(summary.outputTokens)}</td>
+    <td className="px-3 py-2 text-right">{summary.calls > 0 ? `${(summary.latencyMs / summary.calls / 1000).toFixed(1)}s` : '-'}</td>
+    <td className="px-3 py-2 text-right font-medium" title={summary.unpricedCalls > 0 ? `${summary.unpricedCalls} call(s) use a model with no price` : undefined}>
+      {formatCost(summary.cost)}{summary.unpricedCalls > 0 ? '*' : ''}
+    </td>
+  </>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[]>(loadUsageLog);
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [projectNames, setProjectNames] = useState<Record<string, string>>({});
+
+  useEffect(() => subscribeToUsage(setRecords), []);
+
+  useEffect(() => {
+    listProjects()
+      .then((projects: ProjectSummary[]) => setProjectNames(Object.fromEntries(projects.map(project => [project.id, project.name]))))
+      .catch(err => console.warn('Could not load project names for the usage panel', err));
+  }, []);
+
+  // Models seen in the log are listed too, so a new model can be priced
+  const models = [...new Set([...Object.keys(prices), ...records.map(record => record.model)])];
+
+  const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+    const current = prices[model] ?? { inputPerMillion: 0, outputPerMillion: 0 };
+    const next = { ...prices, [model]: { ...current, [field]: Math.max(0, Number(value) || 0) } };
+    setPrices(next);
+    savePriceTable(next);
+  };
+
+  const handleResetPrices = () => {
+    setPrices(DEFAULT_PRICE_TABLE);
+    savePriceTable(DEFAULT_PRICE_TABLE);
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear the whole usage log? Cost history for every project will be lost.')) {
+      clearUsageLog();
+    }
+  };
+
+  const groups = groupUsage(records);
+  const inputClassName = "w-24 px-2 py-1 border border-gray-300 rounded-md text-sm text-right focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Usage &amp; Cost</h2>
+          <p className="text-gray-600 mt-1">Every model call is logged with its tokens, images and latency. Costs are estimates from the price table below.</p>
+        </div>
+        <button onClick={onClose} className="text-sm font-medium text-indigo-600 hover:text-indigo-500">Back</button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Project / run</th>
+              <th className="px-3 py-2 text-right font-medium">Calls</th>
+              <th className="px-3 py-2 text-right font-medium">Images</th>
+              <th className="px-3 py-2 text-right font-medium">Tokens in / out</th>
+              <th className="px-3 py-2 text-right font-medium">Avg latency</th>
+              <th className="px-3 py-2 text-right font-medium">Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {groups.length === 0 && (
+              <tr><td colSpan={6} className="px-3 py-6 text-center text-gray-500">No model calls recorded yet.</td></tr>
+            )}
+            {groups.map(group => (
+              <React.Fragment key={group.projectId ?? 'unattributed'}>
+                <tr className="bg-gray-50/50">
+                  <td className="px-3 py-2 font-semibold text-gray-900">
+                    {group.projectId ? projectNames[group.projectId] ?? 'Unsaved or deleted project' : 'Not linked to a project'}
+                  </td>
+                  <SummaryCells summary={summarizeUsage(group.records, prices)} />
+                </tr>
+                {group.runs.map(run => (
+                  <tr key={run.runId ?? 'other'} className="text-gray-600">
+                    <td className="px-3 py-2 pl-8">
+                      {run.runId ? `Run started ${new Date(run.startedAt).toLocaleString()}` : 'Edits, regenerations and rewrites'}
+                    </td>
+                    <SummaryCells summary={summarizeUsage(run.records, prices)} />
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+          {groups.length > 0 && (
+            <tfoot className="border-t border-gray-200">
+              <tr className="font-semibold text-gray-900">
+                <td className="px-3 py-2">Total</td>
+                <SummaryCells summary={summarizeUsage(records, prices)} />
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-md border border-gray-200">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-lg">Price table</h3>
+          <button onClick={handleResetPrices} className="text-sm text-gray-500 hover:text-gray-800">Reset to defaults</button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">USD per million tokens. Generated images are billed as output tokens.</p>
+        <table className="text-sm">
+          <thead className="text-gray-600">
+            <tr>
+              <th className="pr-4 py-1 text-left font-medium">Model</th>
+              <th className="px-2 py-1 text-right font-medium">Input</th>
+              <th className="px-2 py-1 text-right font-medium">Output</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(model => (
+              <tr key={model}>
+                <td className="pr-4 py-1 font-mono text-xs">{model}</td>
+                {(['inputPerMillion', 'outputPerMillion'] as const).map(field => (
+                  <td key={field} className="px-2 py-1">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={prices[model]?.[field] ?? 0}
+                      onChange={(e) => handlePriceChange(model, field, e.target.value)}
+                      className={inputClassName}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={handleClear} disabled={records.length === 0} className="text-sm text-red-600 hover:text-red-700 disabled:text-gray-400">Clear usage log</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { VariationCopy } from '../types';
+import { EditableField } from './ProductDetailsEditor';
+
+interface VariationCopyEditorProps {
+  copy?: VariationCopy;
+  onChange: (copy: VariationCopy) => void;
+  onRewriteField: (field: keyof VariationCopy, instruction: string) => Promise<void>;
+  // Writes both fields, for projects saved before variation copy existed
+  onWrite: () => Promise<void>;
+}
+
+export const VariationCopyEditor: React.FC<VariationCopyEditorProps> = ({ copy, onChange, onRewriteField, onWrite }) => {
+  const [isWriting, setIsWriting] = useState(false);
+
+  const handleWrite = async () => {
+    setIsWriting(true);
+    try {
+      await onWrite();
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  if (!copy) {
+    return (
+      <div className="mt-2 flex items-center gap-3 text-sm text-gray-500">
+        No copy for this variation yet.
+        <button
+          type="button"
+          onClick={handleWrite}
+          disabled={isWriting}
+          className="font-medium text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+        >
+          {isWriting ? 'Writing...' : 'Write variation copy'}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 max-w-3xl space-y-3">
+      <EditableField
+        label="Variation blurb"
+        value={copy.blurb}
+        onCommit={(blurb) => onChange({ ...copy, blurb })}
+        onRewrite={(instruction) => onRewriteField('blurb', instruction)}
+        multiline
+        rows={2}
+      />
+      <EditableField
+        label="Variation SEO title"
+        value={copy.seoTitle}
+        onCommit={(seoTitle) => onChange({ ...copy, seoTitle })}
+        onRewrite={(instruction) => onRewriteField('seoTitle', instruction)}
+        maxLength={60}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import { AspectRatioSelection, BatchJob, CreativeStyle, Locale, QualitySettings } from '../types';
+import { buildDefaultShotList, loadShotTemplates } from '../utils/shotTemplates';
+import { analyzeSpecSheet, generateVariationsFromSpecSheet } from './geminiService';
+import { saveProject } from './projectStore';
+
+// Settings shared by every job in a batch
+export interface BatchRunSettings {
+  userInstructions: string;
+  creativeStyles: CreativeStyle[];
+  aspectRatios: AspectRatioSelection;
+  quality: QualitySettings;
+  targetLocales: Locale[];
+}
+
+export interface BatchJobResult {
+  projectId: string;
+  failedImages: number;
+}
+
+/**
+ * Runs one product end to end without review: reads the spec sheet, generates the default shot
+ * list for the current templates and saves the result as a project the user can open later.
+ */
+export const runBatchJob = async (
+  job: BatchJob,
+  settings: BatchRunSettings,
+  onProgress: (status: 'analyzing' | 'generating', message: string) => void,
+): Promise<BatchJobResult> => {
+  const usage = { projectId: crypto.randomUUID(), runId: crypto.randomUUID() };
+  onProgress('analyzing', 'Reading the spec sheet...');
+  const specSheet = await analyzeSpecSheet(job.files, usage);
+
+  const shotTemplates = loadShotTemplates();
+  let finished = 0;
+  let total = 0;
+  const content = await generateVariationsFromSpecSheet(
+    job.files,
+    specSheet,
+    settings.userInstructions,
+    {
+      creativeStyles: settings.creativeStyles,
+      aspectRatios: settings.aspectRatios,
+      shotTemplates,
+      shotList: buildDefaultShotList(shotTemplates.templates, specSheet.variations.length),
+      quality: settings.quality,
+      targetLocales: settings.targetLocales,
+      usage,
+    },
+    {
+      onMessage: message => onProgress('generating', message),
+      onContentReady: planned => {
+        total = planned.variationResults.reduce((count, result) => count + result.images.length, 0);
+        onProgress('generating', `0 of ${total} images finished`);
+      },
+      onImageUpdate: (_, image) => {
+        if (image.status === 'done' || image.status === 'error') {
+          finished++;
+          onProgress('generating', `${finished} of ${total} images finished`);
+        }
+      },
+    },
+  );
+
+  const now = Date.now();
+  const project = await saveProject({
+    id: usage.projectId,
+    name: content.baseDetails.names[0] || specSheet.productName || job.name,
+    createdAt: now,
+    updatedAt: now,
+    sourceImages: job.files,
+    userInstructions: settings.userInstructions,
+    settings: { creativeStyles: settings.creativeStyles, aspectRatios: settings.aspectRatios },
+    content,
+  });
+
+  return {
+    projectId: project.id,
+    failedImages: content.variationResults.reduce((count, result) => count + result.images.filter(image => image.status === 'error').length, 0),
+  };
+};
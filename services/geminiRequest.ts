@@ -0,0 +1,149 @@
+import { ApiError, GenerateContentResponse } from "@google/genai";
+
+export type GeminiErrorKind = 'rate_limit' | 'safety_block' | 'invalid_key' | 'empty_response' | 'network' | 'unknown';
+
+const ERROR_LABELS: Record<GeminiErrorKind, string> = {
+    rate_limit: 'Rate limit reached',
+    safety_block: 'Blocked by safety filters',
+    invalid_key: 'Invalid or missing API key',
+    empty_response: 'The model returned no usable output',
+    network: 'Network or server error',
+    unknown: 'Request failed',
+};
+
+// Finish/block reasons that mean the content itself was refused; retrying the same prompt won't help.
+const SAFETY_REASONS = new Set([
+    'SAFETY',
+    'BLOCKLIST',
+    'PROHIBITED_CONTENT',
+    'SPII',
+    'RECITATION',
+    'IMAGE_SAFETY',
+    'IMAGE_PROHIBITED_CONTENT',
+    'IMAGE_RECITATION',
+]);
+
+export class GeminiRequestError extends Error {
+    readonly kind: GeminiErrorKind;
+    readonly retryable: boolean;
+    readonly status?: number;
+    readonly finishReason?: string;
+    readonly blockReason?: string;
+
+    constructor(
+        kind: GeminiErrorKind,
+        detail: string,
+        options: { retryable?: boolean; status?: number; finishReason?: string; blockReason?: string } = {}
+    ) {
+        const reasons = [
+            options.blockReason && `block reason: ${options.blockReason}`,
+            options.finishReason && `finish reason: ${options.finishReason}`,
+        ].filter(Boolean).join(', ');
+        super(`${ERROR_LABELS[kind]}: ${detail}${reasons ? ` (${reasons})` : ''}`);
+        this.name = 'GeminiRequestError';
+        this.kind = kind;
+        this.retryable = options.retryable ?? (kind === 'rate_limit' || kind === 'network' || kind === 'empty_response');
+        this.status = options.status;
+        this.finishReason = options.finishReason;
+        this.blockReason = options.blockReason;
+    }
+}
+
+export const classifyGeminiError = (err: unknown): GeminiRequestError => {
+    if (err instanceof GeminiRequestError) {
+        return err;
+    }
+
+    const message = err instanceof Error ? err.message : String(err);
+    const status = err instanceof ApiError ? err.status : undefined;
+
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+        return new GeminiRequestError('rate_limit', message, { status });
+    }
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|api key/i.test(message)) {
+        return new GeminiRequestError('invalid_key', message, { status });
+    }
+    if ((status !== undefined && status >= 500) || err instanceof TypeError || /network|failed to fetch|timed? ?out|ECONNRESET|UNAVAILABLE/i.test(message)) {
+        return new GeminiRequestError('network', message, { status });
+    }
+    if (/safety|blocked/i.test(message)) {
+        return new GeminiRequestError('safety_block', message, { status });
+    }
+    return new GeminiRequestError('unknown', message, { status, retryable: false });
+};
+
+// Builds the right error for a response that didn't contain what we asked for.
+const emptyResponseError = (response: GenerateContentResponse, detail: string): GeminiRequestError => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if ((blockReason && blockReason !== 'BLOCKED_REASON_UNSPECIFIED') || (finishReason && SAFETY_REASONS.has(finishReason))) {
+        return new GeminiRequestError('safety_block', response.promptFeedback?.blockReasonMessage || detail, {
+            blockReason,
+            finishReason,
+            retryable: false,
+        });
+    }
+    return new GeminiRequestError('empty_response', detail, { finishReason });
+};
+
+export const extractImageData = (response: GenerateContentResponse, detail: string): { data: string; mimeType?: string } => {
+    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+    if (!part || !part.inlineData?.data) {
+        throw emptyResponseError(response, detail);
+    }
+    return { data: part.inlineData.data, mimeType: part.inlineData.mimeType };
+};
+
+export const extractJson = <T>(response: GenerateContentResponse, detail: string): T => {
+    const text = response.text;
+    if (!text || !text.trim()) {
+        throw emptyResponseError(response, detail);
+    }
+    try {
+        return JSON.parse(text) as T;
+    } catch {
+        throw new GeminiRequestError('empty_response', `${detail} The response was not valid JSON.`, {
+            finishReason: response.candidates?.[0]?.finishReason,
+        });
+    }
+};
+
+interface RetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a Gemini request, retrying retryable failures with exponential backoff and full jitter.
+ * Every error that escapes is a classified GeminiRequestError.
+ */
+export const withGeminiRetry = async <T>(request: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+    const { maxAttempts = 4, baseDelayMs = 1000, maxDelayMs = 20000 } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (err) {
+            const classified = classifyGeminiError(err);
+            if (!classified.retryable || attempt >= maxAttempts) {
+                throw classified;
+            }
+            const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            console.warn(`Gemini request failed (${classified.kind}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxAttempts})`, classified);
+            await sleep(delay);
+        }
+    }
+};
+
+/**
+ * User-facing description of any error, including whether retrying makes sense.
+ */
+export const describeError = (err: unknown, fallback: string): string => {
+    if (err instanceof GeminiRequestError) {
+        return `${err.message} ${err.retryable ? 'This is usually temporary; retrying should help.' : 'Retrying the same request will not help.'}`;
+    }
+    return err instanceof Error ? err.message : fallback;
+};
@@ -1,39 +1,29 @@
 
-import { GoogleGenAI, Type, Modality, ContentPart } from "@google/genai";
-import { GeneratedContent, GeneratedImage, ProductDetails, VariationResult } from '../types';
-import { fileToBase64 } from "../utils/fileUtils";
-
-// Lazily initialize the AI client to prevent app crash on load if API key is missing.
-const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const preservationInstruction = "**CRITICAL INSTRUCTION: You MUST preserve the exact design, shape, proportions, and materials of the furniture from the source images. DO NOT add, remove, or alter any part of the furniture's design. Your ONLY task is to place this exact piece of furniture into the described scene or modify the scene around it. If the source image is low resolution, upscale it while strictly maintaining the original textures and details. DO NOT include any text, dimensions, measurements, arrows, lines, or annotations in the image. The image must be a clean, professional photograph without any graphic overlays or artifacts.**";
-
-const cleanImageInstruction = "The final image must be a single, full-frame, clean photograph. DO NOT include any text, numbers, measurements, arrows, diagrams, watermarks, or overlay graphics. DO NOT produce a collage, split screen, grid, or multi-view composition. DO NOT include black lines or dividers. DO NOT include vignetting, grey corners, or lighting artifacts in the background. The lighting should be natural and soft, avoiding harsh artificial highlights.";
-
-interface ParsedSpecSheet {
-    productName: string;
-    modelNo: string;
-    variations: {
-        attributes: Record<string, string>;
-    }[];
-}
+import { Type } from "@google/genai";
+import { AspectRatio, AspectRatioSelection, BrandProfile, CreativeStyle, GeneratedContent, GeneratedImage, ImageCategory, Locale, ParsedSpecSheet, PricingSettings, ProductDetails, QualitySettings, ShotCounts, ShotTemplateLibrary, SpecSheetVariation, UsageContext, VariationCopy, VariationResult } from '../types';
+import { fileToInlineImage } from "../utils/fileUtils";
+import { DEFAULT_ASPECT_RATIOS, cropToAspectRatio } from "../utils/imageUtils";
+import { addImageVersion } from "../utils/imageVersions";
+import { runWithConcurrency } from "../utils/concurrency";
+import { compositeWithMask, toBinaryMask } from "../utils/imageMask";
+import { describeError } from "./geminiRequest";
+import { DEFAULT_QUALITY_SETTINGS, generateWithQualityGate, withQualityReport } from "./qualityGate";
+import { InlineImage, getImageProvider, getTextProvider } from "./providers";
+import { CREATIVE_STYLES, DEFAULT_CREATIVE_STYLES, buildStyleDirection } from "../utils/creativeStyles";
+import { buildDefaultShotList, fillTemplate, loadShotTemplates, usesCreativeStyle } from "../utils/shotTemplates";
+import { buildSocialCaption, describeBrandVoice, findBrandViolations, getBrandProfile, getCareInstructions } from "../utils/brandProfiles";
+import { loadPricingDefaults } from "../utils/pricing";
+import { LOCALES, SOURCE_LOCALE, convertPrice, loadLocaleSettings } from "../utils/locales";
+import { formatDimensionsCompact, formatWeight, getDimensionsAttribute, readSpecSheetVariation } from "../utils/dimensions";
+
+// The model's answer: measurements arrive as text and are parsed locally.
+type RawSpecSheet = Omit<ParsedSpecSheet, 'variations'> & {
+    variations: { attributes: Record<string, string>; weight?: string; seatHeight?: string }[];
+};
 
-const parseSpecSheet = async (sourceFiles: File[]): Promise<ParsedSpecSheet> => {
-    const ai = getAiClient();
-    
-    // We send all images (up to 3 to save tokens/latency) to check for spec data
-    const maxFilesToCheck = Math.min(sourceFiles.length, 4);
-    const contentParts: ContentPart[] = [];
-
-    for (let i = 0; i < maxFilesToCheck; i++) {
-        const base64Image = await fileToBase64(sourceFiles[i]);
-         contentParts.push({
-            inlineData: {
-                mimeType: sourceFiles[i].type,
-                data: base64Image.split(',')[1],
-            },
-        });
-    }
+export const analyzeSpecSheet = async (sourceFiles: File[], usage?: UsageContext): Promise<ParsedSpecSheet> => {
+    // We send all images (up to 4 to save tokens/latency) to check for spec data
+    const images = await Promise.all(sourceFiles.slice(0, 4).map(fileToInlineImage));
 
     const prompt = `
         Analyze the provided images. Some may be photos of furniture, others might be a technical specification sheet containing text and charts.
@@ -48,64 +38,95 @@ const parseSpecSheet = async (sourceFiles: File[]): Promise<ParsedSpecSheet> =>
             *   Identify the color and material shown in the photos.
             *   Create a single "Default" variation with these observed attributes.
 
+        4.  **Weight and Seat Height**: If the spec data lists a net weight or a seat height for a variation, copy them exactly as written, with units. Leave them out when they are not listed; do not estimate them.
+
         Return a JSON object adhering to the schema.
     `;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: { parts: [...contentParts, { text: prompt }] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    productName: { type: Type.STRING, description: "A general name for the product." },
-                    modelNo: { type: Type.STRING, description: "The model number if found, otherwise 'N/A'." },
-                    variations: {
-                        type: Type.ARRAY,
-                        description: "An array containing every single possible product variation. If no variations found, return one entry representing the product shown.",
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                attributes: {
-                                    type: Type.OBJECT,
-                                    description: "A key-value map of the variation's attributes.",
-                                    properties: {
-                                        Size: { type: Type.STRING, description: "e.g., 'Standard' or 'Three seats'" },
-                                        Dimensions: { type: Type.STRING, description: "e.g., '240*100*78CM'. Must estimate if not found." },
-                                        Color: { type: Type.STRING, description: "The identified color name, e.g., 'Beige'" },
-                                        Material: { type: Type.STRING, description: "e.g., 'Velvet' or 'Wood'" }
-                                    },
-                                    required: ["Size", "Dimensions", "Color", "Material"]
-                                }
+    const raw = await getTextProvider().generateJson<RawSpecSheet>({
+        task: 'parseSpecSheet',
+        prompt,
+        images,
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                productName: { type: Type.STRING, description: "A general name for the product." },
+                modelNo: { type: Type.STRING, description: "The model number if found, otherwise 'N/A'." },
+                variations: {
+                    type: Type.ARRAY,
+                    description: "An array containing every single possible product variation. If no variations found, return one entry representing the product shown.",
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            attributes: {
+                                type: Type.OBJECT,
+                                description: "A key-value map of the variation's attributes.",
+                                properties: {
+                                    Size: { type: Type.STRING, description: "e.g., 'Standard' or 'Three seats'" },
+                                    Dimensions: { type: Type.STRING, description: "Copied as written, with labels and units, e.g., '240*100*78CM' or 'L 240 x D 100 x H 78 cm'. Must estimate if not found." },
+                                    Color: { type: Type.STRING, description: "The identified color name, e.g., 'Beige'" },
+                                    Material: { type: Type.STRING, description: "e.g., 'Velvet' or 'Wood'" }
+                                },
+                                required: ["Size", "Dimensions", "Color", "Material"]
                             },
-                            required: ["attributes"]
-                        }
+                            weight: { type: Type.STRING, description: "Net weight as written, e.g., '45KG' or '99 lbs'." },
+                            seatHeight: { type: Type.STRING, description: "Seat height as written, e.g., '45CM'." }
+                        },
+                        required: ["attributes"]
                     }
-                },
-                required: ['productName', 'modelNo', 'variations']
-            }
-        }
+                }
+            },
+            required: ['productName', 'modelNo', 'variations']
+        },
     });
-    
-    return JSON.parse(response.text);
+
+    return {
+        ...raw,
+        variations: raw.variations.map(({ attributes, weight, seatHeight }) => readSpecSheetVariation(attributes, weight, seatHeight)),
+    };
 };
 
 
-const generateBaseProductDetails = async (sourceFiles: File[], baseProductName: string, userInstructions: string): Promise<ProductDetails> => {
-    const ai = getAiClient();
+// The subset of ProductDetails written by the model; the rest is filled in locally.
+type GeneratedCopy = Pick<ProductDetails, 'names' | 'suggestedPrice' | 'description' | 'tags' | 'seoTitle' | 'seoDescription'>;
+
+// One line per variation with its measured size and weight, in metric and imperial.
+const describeMeasurements = (variations: SpecSheetVariation[]): string => {
+    const lines = variations
+        .filter(({ dimensions, weight }) => dimensions || weight)
+        .map(({ attributes, dimensions, weight }) => {
+            const parts = [
+                dimensions && `${formatDimensionsCompact(dimensions, 'metric')} (${formatDimensionsCompact(dimensions, 'imperial')})`,
+                weight && `${formatWeight(weight, 'metric')} (${formatWeight(weight, 'imperial')})`,
+            ].filter(Boolean);
+            const label = attributes.Size || Object.values(attributes).filter(value => value !== getDimensionsAttribute(attributes)).join(', ');
+            return variations.length > 1 && label ? `${label}: ${parts.join(', ')}` : parts.join(', ');
+        });
+    return lines.length > 0 ? lines.join('\n') : 'See variations for specific dimensions.';
+};
+
+/**
+ * Writes the product copy in the brand's voice. Shipping, care and the caption come from the brand
+ * profile rather than the model; copy that breaks the brand rules is regenerated once with the problems listed.
+ */
+const generateBaseProductDetails = async (
+    sourceFiles: File[],
+    baseProductName: string,
+    userInstructions: string,
+    variations: SpecSheetVariation[],
+    brand: BrandProfile,
+    usage?: UsageContext,
+): Promise<ProductDetails> => {
     // Use the first image as the main visual reference for description
-    const base64Image = await fileToBase64(sourceFiles[0]);
-    const imagePart = {
-        inlineData: {
-            mimeType: sourceFiles[0].type,
-            data: base64Image.split(',')[1],
-        },
-    };
-    const prompt = `Based on the provided furniture image(s) for a "${baseProductName}", generate the following for an e-commerce store. 
+    const imagePart = await fileToInlineImage(sourceFiles[0]);
+    const measurements = describeMeasurements(variations);
+    const brandVoice = describeBrandVoice(brand);
+    const basePrompt = `Based on the provided furniture image(s) for a "${baseProductName}", generate the following for an e-commerce store. 
     
     User specific instructions for tone, style, or details: "${userInstructions}"
-    
+    Measured sizes from the spec sheet (use these, do not invent others): ${measurements}
+    ${brandVoice ? `\n    Brand guidelines for ${brand.vendor}:\n${brandVoice}\n` : ''}
     1.  **names**: An array of 3-5 creative and marketable product names. The first one should be the most conventional.
     2.  **suggestedPrice**: A suggested retail price in USD, formatted as a string like "$1,299.99". Base this on the product's likely quality, materials, and size.
     3.  **description**: A creative and appealing product description (in plain text, using newlines for paragraph breaks).
@@ -113,233 +134,500 @@ const generateBaseProductDetails = async (sourceFiles: File[], baseProductName:
     5.  **seoTitle**: A concise SEO title (under 60 characters).
     6.  **seoDescription**: A compelling SEO meta description (under 160 characters).`;
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-pro',
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseMimeType: 'application/json',
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    names: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    suggestedPrice: { type: Type.STRING },
-                    description: { type: Type.STRING },
-                    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                    seoTitle: { type: Type.STRING },
-                    seoDescription: { type: Type.STRING },
-                },
-                required: ['names', 'suggestedPrice', 'description', 'tags', 'seoTitle', 'seoDescription']
-            }
-        }
+    const requestCopy = (prompt: string) => getTextProvider().generateJson<GeneratedCopy>({
+        task: 'productDetails',
+        prompt,
+        images: [imagePart],
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                names: { type: Type.ARRAY, items: { type: Type.STRING } },
+                suggestedPrice: { type: Type.STRING },
+                description: { type: Type.STRING },
+                tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                seoTitle: { type: Type.STRING },
+                seoDescription: { type: Type.STRING },
+            },
+            required: ['names', 'suggestedPrice', 'description', 'tags', 'seoTitle', 'seoDescription']
+        },
     });
 
-    const detailsFromAI = JSON.parse(response.text);
-    const primaryName = detailsFromAI.names[0] || baseProductName;
+    let copy = await requestCopy(basePrompt);
+    const violations = findBrandViolations(copy, brand);
+    if (violations.length > 0) {
+        copy = await requestCopy(`${basePrompt}\n\n    Your previous answer broke these brand rules; fix them:\n${violations.map(violation => `    - ${violation}`).join('\n')}`);
+        const remaining = findBrandViolations(copy, brand);
+        if (remaining.length > 0) {
+            console.warn(`Product copy still breaks the ${brand.name} brand rules`, remaining);
+        }
+    }
+
+    const primaryName = copy.names[0] || baseProductName;
+    const materials = variations.map(({ attributes }) => attributes.Material ?? '').filter(Boolean);
 
     return {
-        ...detailsFromAI,
-        measurements: 'See variations for specific dimensions.',
-        shipping: 'Ships within 3 to 11 weeks.',
-        careInstructions: 'General care: Wipe clean with a soft, dry cloth. Avoid harsh chemicals.',
-        socialMediaCaption: `Elevate your space with the new ${primaryName}. ✨ #interiordesign #homedecor #${primaryName.replace(/\s+/g, '')}`
+        ...copy,
+        measurements,
+        shipping: brand.shippingPolicy,
+        careInstructions: getCareInstructions(brand, materials),
+        socialMediaCaption: buildSocialCaption(brand, primaryName),
     };
 };
 
-export const regenerateImageFromSource = async (sourceFiles: File[], prompt: string): Promise<string> => {
-    const ai = getAiClient();
-    
-    const imageParts = await Promise.all(sourceFiles.map(async (file) => {
-        const base64Image = await fileToBase64(file);
-        return {
-            inlineData: {
-                mimeType: file.type,
-                data: base64Image.split(',')[1],
+// Copy fields that hold a list of values rather than a single string
+const LIST_FIELDS: (keyof ProductDetails)[] = ['names', 'tags'];
+
+const FIELD_GUIDANCE: Record<keyof ProductDetails, string> = {
+    names: '3-5 creative and marketable product names. The first one should be the most conventional.',
+    description: 'A creative and appealing product description in plain text, using newlines for paragraph breaks.',
+    tags: '5-7 relevant product tags.',
+    seoTitle: 'A concise SEO title under 60 characters.',
+    seoDescription: 'A compelling SEO meta description under 160 characters.',
+    socialMediaCaption: 'A short social media caption with a few relevant hashtags.',
+    measurements: 'A short note on the product measurements.',
+    shipping: 'A short shipping note for the product page.',
+    careInstructions: 'Clear, practical care instructions for the materials.',
+    suggestedPrice: 'A suggested retail price in USD, formatted like "$1,299.99".',
+};
+
+/**
+ * Asks the text model to rewrite a single ProductDetails field, keeping the rest of the copy as context.
+ * Translated copy is rewritten in its own language (and currency, for the price).
+ */
+export const rewriteProductField = async <K extends keyof ProductDetails>(
+    field: K,
+    details: ProductDetails,
+    instruction?: string,
+    locale: Locale = SOURCE_LOCALE,
+    brand?: BrandProfile,
+    usage?: UsageContext,
+): Promise<ProductDetails[K]> => {
+    const isList = LIST_FIELDS.includes(field);
+    const { language, currency } = LOCALES[locale];
+    const guidance = locale !== SOURCE_LOCALE && field === 'suggestedPrice'
+        ? `A suggested retail price in ${currency}, formatted as shoppers writing ${language} expect.`
+        : FIELD_GUIDANCE[field];
+    const prompt = `You are editing e-commerce copy for a furniture product. The copy is written in ${language}; keep it in ${language}.
+
+    Current product copy (JSON):
+    ${JSON.stringify(details, null, 2)}
+
+    Rewrite ONLY the "${field}" field. ${guidance}
+    ${instruction && instruction.trim() ? `Rewrite instruction: "${instruction.trim()}"` : 'Make it clearer and more compelling while keeping the facts unchanged.'}
+    Keep every fact (materials, sizes, policies) consistent with the rest of the copy.
+    ${brand ? describeBrandVoice(brand) : ''}`;
+
+    const result = await getTextProvider().generateJson<{ value: string | string[] }>({
+        task: 'rewriteField',
+        prompt,
+        images: [],
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                value: isList ? { type: Type.ARRAY, items: { type: Type.STRING } } : { type: Type.STRING },
             },
-        };
-    }));
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [...imageParts, { text: prompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
+            required: ['value'],
         },
     });
 
-    const part = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-    if (!part || !part.inlineData) {
-        throw new Error("Image regeneration failed, no image data returned.");
+    const value = result.value;
+    if (isList) {
+        return (Array.isArray(value) ? value : value.split(',').map(item => item.trim()).filter(Boolean)) as ProductDetails[K];
     }
-    return part.inlineData.data;
-}
+    return (Array.isArray(value) ? value.join(', ') : value) as ProductDetails[K];
+};
 
+// Every field except the price, which is converted locally with the configured exchange rate
+type TranslatedCopy = Omit<ProductDetails, 'suggestedPrice'>;
+
+/**
+ * Localizes the source copy for another market: translated text, that market's units, and the
+ * price converted to its currency.
+ */
+export const translateProductDetails = async (details: ProductDetails, locale: Locale, usage?: UsageContext): Promise<ProductDetails> => {
+    const { label, language, measurementSystem } = LOCALES[locale];
+    const { suggestedPrice, ...sourceCopy } = details;
+    const units = measurementSystem === 'metric'
+        ? 'Give every measurement in metric units only (cm, kg), converting any inches or pounds.'
+        : 'Give measurements in inches and pounds, with the metric values in brackets.';
+    const prompt = `You are localizing e-commerce copy for a furniture product for shoppers in ${label}.
+
+    Source copy (JSON, ${LOCALES[SOURCE_LOCALE].language}):
+    ${JSON.stringify(sourceCopy, null, 2)}
+
+    Write every field in ${language}. Adapt the copy so it reads as if written for that market, not word for word.
+    - ${units} Convert the numbers exactly; never change the product's size.
+    - Keep invented product names as they are; translate only descriptive words in them.
+    - tags: the search terms shoppers in that market would use.
+    - seoTitle under 60 characters, seoDescription under 160 characters.
+    - Keep every fact (materials, sizes, shipping times, care advice) unchanged.`;
+
+    const translated = await getTextProvider().generateJson<TranslatedCopy>({
+        task: 'translateDetails',
+        prompt,
+        images: [],
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                names: { type: Type.ARRAY, items: { type: Type.STRING } },
+                description: { type: Type.STRING },
+                tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+                seoTitle: { type: Type.STRING },
+                seoDescription: { type: Type.STRING },
+                socialMediaCaption: { type: Type.STRING },
+                measurements: { type: Type.STRING },
+                shipping: { type: Type.STRING },
+                careInstructions: { type: Type.STRING },
+            },
+            required: ['names', 'description', 'tags', 'seoTitle', 'seoDescription', 'socialMediaCaption', 'measurements', 'shipping', 'careInstructions'],
+        },
+    });
 
-export const editImageWithGemini = async (sources: string[], prompt: string): Promise<string> => {
-    const ai = getAiClient();
-    const contentParts: ContentPart[] = [];
-    
-    for (const source of sources) {
-        const parts = source.split(';base64,');
-        const mimeType = parts[0].split(':')[1];
-        const base64Data = parts[1];
-        contentParts.push({ inlineData: { data: base64Data, mimeType } });
-    }
-    
-    const finalPrompt = `${preservationInstruction}\n${cleanImageInstruction}\n\nUser request: "${prompt}"`;
-    contentParts.push({ text: finalPrompt });
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: contentParts },
-        config: {
-            responseModalities: [Modality.IMAGE],
+    return { ...translated, suggestedPrice: convertPrice(suggestedPrice, locale, loadLocaleSettings().exchangeRates) };
+};
+
+// Attribute list for prompts, e.g. "Size is Three seats, Color is Beige, Material is Velvet".
+// Dimensions are left out; the model reads proportions from the source images.
+const describeVariation = (variation: Record<string, string>): string => {
+  return Object.entries(variation)
+    .filter(([key, value]) => key.toLowerCase() !== 'dimensions' && value)
+    .map(([key, value]) => `${key} is ${value}`)
+    .join(', ');
+};
+
+/**
+ * Writes a short blurb and an SEO title for each variation in one request, in the same order as `variations`.
+ */
+export const generateVariationCopy = async (
+    details: ProductDetails,
+    variations: SpecSheetVariation[],
+    brand: BrandProfile,
+    instruction?: string,
+    usage?: UsageContext,
+): Promise<VariationCopy[]> => {
+    const brandVoice = describeBrandVoice(brand);
+    const prompt = `You are writing e-commerce copy for each variation of a furniture product called "${details.names[0]}".
+
+    Product description:
+    ${details.description}
+
+    Variations, in order:
+    ${variations.map(({ attributes, dimensions }, i) => `${i + 1}. ${describeVariation(attributes)}${dimensions ? ` (${formatDimensionsCompact(dimensions, 'metric')})` : ''}`).join('\n    ')}
+    ${brandVoice ? `\n    Brand guidelines for ${brand.vendor}:\n${brandVoice}\n` : ''}
+    Return one entry per variation, in the same order:
+    - blurb: one or two sentences for that variation's product page, naming its color, material and size.
+    - seoTitle: an SEO title for that variation under 60 characters, including its color or size.
+    Do not repeat the product description or invent features.
+    ${instruction && instruction.trim() ? `Rewrite instruction: "${instruction.trim()}"` : ''}`;
+
+    const result = await getTextProvider().generateJson<{ variations: VariationCopy[] }>({
+        task: 'variationCopy',
+        prompt,
+        images: [],
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                variations: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            blurb: { type: Type.STRING },
+                            seoTitle: { type: Type.STRING },
+                        },
+                        required: ['blurb', 'seoTitle'],
+                    },
+                },
+            },
+            required: ['variations'],
+        },
+    });
+
+    // Extra entries are dropped; variations the model skipped keep only the base details
+    return result.variations.slice(0, variations.length);
+};
+
+/**
+ * Describes what a generated photo actually shows, for use as its alt text.
+ */
+export const generateAltText = async (base64: string, productName: string, variation: Record<string, string>, usage?: UsageContext): Promise<string> => {
+    const prompt = `Write alt text for this e-commerce photo of the "${productName}" (${describeVariation(variation)}).
+    Describe what is visible: the product, its color and material, and the setting or background.
+    One sentence under 125 characters. Do not start with "Image of" or "Photo of".`;
+
+    const result = await getTextProvider().generateJson<{ altText: string }>({
+        task: 'altText',
+        prompt,
+        images: [{ mimeType: 'image/png', data: base64 }],
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                altText: { type: Type.STRING },
+            },
+            required: ['altText'],
         },
     });
+    return result.altText.trim();
+};
 
-    const part = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-    if (!part || !part.inlineData) {
-        throw new Error("Image editing failed, no image data returned.");
+// Stores alt text on the image, tied to its current version.
+export const withAltText = (image: GeneratedImage, text?: string): GeneratedImage =>
+    text ? { ...image, altText: { text, versionId: image.currentVersionId } } : image;
+
+export const regenerateImageFromSource = async (sourceFiles: File[], prompt: string, aspectRatio: AspectRatio = '16:9', usage?: UsageContext): Promise<string> => {
+    const images = await Promise.all(sourceFiles.map(fileToInlineImage));
+    const image = await getImageProvider().generateImage({ kind: 'generate', prompt, images, aspectRatio, usage });
+
+    // The model does not always honour the requested ratio, so crop to guarantee it.
+    return cropToAspectRatio(image.data, aspectRatio, image.mimeType);
+}
+
+
+/**
+ * Edits an image from an instruction. With a `mask` (see utils/imageMask), only the painted
+ * region may change: the model is shown the mask and its result is composited back over the
+ * first source, so everything outside the mask stays pixel-for-pixel identical.
+ */
+export const editImageWithGemini = async (sources: string[], prompt: string, aspectRatio?: AspectRatio, mask?: string, usage?: UsageContext): Promise<string> => {
+    const images: InlineImage[] = sources.map(source => {
+        const parts = source.split(';base64,');
+        return { mimeType: parts[0].split(':')[1], data: parts[1] };
+    });
+    
+    const { preservationInstruction, cleanImageInstruction } = loadShotTemplates().instructions;
+    let finalPrompt = `${preservationInstruction}\n${cleanImageInstruction}\n\nUser request: "${prompt}"`;
+    if (mask) {
+        images.push({ mimeType: 'image/png', data: await toBinaryMask(mask) });
+        finalPrompt += `\n\nThe last image is a mask for the first image. Apply the request ONLY inside the white area of the mask. Everything in the black area must stay exactly as it is.`;
     }
-    return part.inlineData.data;
+    const image = await getImageProvider().generateImage({ kind: 'edit', prompt: finalPrompt, images, aspectRatio, usage });
+
+    const edited = aspectRatio
+        ? await cropToAspectRatio(image.data, aspectRatio, image.mimeType)
+        : image.data;
+    return mask ? compositeWithMask(images[0].data, edited, mask) : edited;
 };
 
+interface ShotDefinition {
+  title: string;
+  description: string;
+  prompt: string;
+  category: ImageCategory;
+  aspectRatio: AspectRatio;
+  creativeStyle?: CreativeStyle;
+}
+
+// How many image requests run at once during a photoshoot
+const MAX_CONCURRENT_SHOTS = 3;
+
+export interface GenerationOptions {
+  creativeStyles?: CreativeStyle[];
+  aspectRatios?: AspectRatioSelection;
+  shotTemplates?: ShotTemplateLibrary;
+  // Shot counts per variation, aligned with the spec sheet's variations; defaults to the templates' `when` rules
+  shotList?: ShotCounts[];
+  quality?: QualitySettings;
+  concurrency?: number;
+  // Markets to translate the copy for, besides the source locale
+  targetLocales?: Locale[];
+  // Vendor, policies and copy voice; defaults to the active brand profile
+  brand?: BrandProfile;
+  // Variation price rules; defaults to the saved pricing defaults
+  pricing?: PricingSettings;
+  // Attribution for the usage log
+  usage?: UsageContext;
+}
+
+export interface GenerationCallbacks {
+  onMessage: (message: string) => void;
+  // Called once all shots are planned, with every image still pending
+  onContentReady?: (content: GeneratedContent) => void;
+  // Called whenever a single image changes status or finishes
+  onImageUpdate?: (variationId: string, image: GeneratedImage) => void;
+}
+
+/**
+ * Runs the photoshoot for a spec sheet the user has already reviewed (see `analyzeSpecSheet`).
+ */
 export const generateVariationsFromSpecSheet = async (
   sourceFiles: File[],
+  specSheet: ParsedSpecSheet,
   userInstructions: string,
-  updateMessage: (message: string) => void,
+  options: GenerationOptions,
+  callbacks: GenerationCallbacks,
 ): Promise<GeneratedContent> => {
   if (sourceFiles.length === 0) {
     throw new Error("At least one source image must be provided.");
   }
 
-  updateMessage('Analyzing images for product details...');
-  const parsedData = await parseSpecSheet(sourceFiles);
-  const { productName, variations } = parsedData;
+  const updateMessage = callbacks.onMessage;
+  const styles = options.creativeStyles && options.creativeStyles.length > 0 ? options.creativeStyles : DEFAULT_CREATIVE_STYLES;
+  const aspectRatios = options.aspectRatios ?? DEFAULT_ASPECT_RATIOS;
+
+  const { productName, variations } = specSheet;
+  const brand = options.brand ?? getBrandProfile();
 
   updateMessage('Generating base product details...');
-  const baseDetails = await generateBaseProductDetails(sourceFiles, productName, userInstructions);
+  const baseDetails = await generateBaseProductDetails(sourceFiles, productName, userInstructions, variations, brand, options.usage);
+
+  // A failed translation doesn't stop the photoshoot; it can be retried from the results screen.
+  const translations: GeneratedContent['translations'] = {};
+  for (const locale of options.targetLocales ?? []) {
+    updateMessage(`Translating product details for ${LOCALES[locale].label}...`);
+    try {
+      translations[locale] = await translateProductDetails(baseDetails, locale, options.usage);
+    } catch (err) {
+      console.warn(`Could not translate the product details for ${locale}`, err);
+    }
+  }
+
+  // Variation copy is optional too; the base details still apply to every variation.
+  updateMessage('Writing copy for each variation...');
+  let variationCopy: VariationCopy[] = [];
+  try {
+    variationCopy = await generateVariationCopy(baseDetails, variations, brand, undefined, options.usage);
+  } catch (err) {
+    console.warn('Could not write the variation copy', err);
+  }
   
   const variationResults: VariationResult[] = [];
   const totalVariations = variations.length;
 
-  // Add user instructions to the prompt context if provided
-  const instructionsText = userInstructions ? `User specific instructions: "${userInstructions}".` : "";
-  
-  const photographyStyle = "Award-winning product photography, shot on 85mm lens, f/8 aperture for sharp focus with subtle depth of field. Soft, diffused natural studio lighting. Ultra-high resolution, 8k, highly detailed textures. Super natural, tangible, and organic look. No CGI gloss, no artifacts.";
+  const { instructions, templates } = options.shotTemplates ?? loadShotTemplates();
+  const shotList = options.shotList ?? buildDefaultShotList(templates, totalVariations);
 
   for (let i = 0; i < totalVariations; i++) {
     const variation = variations[i].attributes;
     const variationName = Object.values(variation).join(', ');
-    updateMessage(`Generating images for variation ${i + 1}/${totalVariations}: ${variationName}`);
+    updateMessage(`Planning shots for variation ${i + 1}/${totalVariations}: ${variationName}`);
     
-    const primaryProductName = baseDetails.names[0] || productName;
-    const variationImages: GeneratedImage[] = [];
-
-    // --- Studio Shot (Front View) - Always Generate ---
-    // Strict prompt to avoid top-left grey shadings
-    const studioPromptFront = `Using the provided images as a visual guide, create a professional Front View product photo of the ${primaryProductName}. Variation details: Size is ${variation.Size}, color is ${variation.Color}. Place it on a completely flat, pure white background (Hex #FFFFFF). The background must be evenly lit from edge-to-edge with NO grey shadings, NO shadows in the top corners, NO vignetting, and NO horizon line. It should be a perfect cutout-style white background. ${photographyStyle} ${instructionsText} ${preservationInstruction} ${cleanImageInstruction}`;
-    const studioBase64 = await regenerateImageFromSource(sourceFiles, studioPromptFront);
-    variationImages.push({
-        id: crypto.randomUUID(),
-        title: 'Studio Shot (Front View)',
-        description: 'High quality front view on white background.',
-        base64: studioBase64,
-        sourcePrompt: studioPromptFront,
-        sourceAspectRatio: '16:9',
-        category: 'studio',
-    });
-
-    // --- Studio Shot (3/4 View) - Generate if Single Variation ---
-    if (totalVariations === 1) {
-         updateMessage(`Generating 3/4 angle view...`);
-         // Strict prompt to avoid top-left grey shadings
-         const studioPromptAngle = `Using the provided images as a visual guide, create a professional 3/4 Angle View product photo of the ${primaryProductName}. Show the depth and side details. Variation details: Size is ${variation.Size}, color is ${variation.Color}. Place it on a completely flat, pure white background (Hex #FFFFFF). The background must be evenly lit from edge-to-edge with NO grey shadings, NO shadows in the top corners, NO vignetting, and NO horizon line. It should be a perfect cutout-style white background. ${photographyStyle} ${instructionsText} ${preservationInstruction} ${cleanImageInstruction}`;
-         const studioBase64Angle = await regenerateImageFromSource(sourceFiles, studioPromptAngle);
-         variationImages.push({
-             id: crypto.randomUUID(),
-             title: 'Studio Shot (3/4 View)',
-             description: 'High quality 3/4 angle view on white background.',
-             base64: studioBase64Angle,
-             sourcePrompt: studioPromptAngle,
-             sourceAspectRatio: '16:9',
-             category: 'studio',
-         });
+    // Variation attributes are placeholders too, e.g. {Color} or {Size}.
+    const values: Record<string, string> = {
+        ...variation,
+        ...instructions,
+        productName: baseDetails.names[0] || productName,
+        variationDetails: describeVariation(variation),
+        userInstructions: userInstructions ? `User specific instructions: "${userInstructions}".` : '',
+    };
+    const shots: ShotDefinition[] = [];
+
+    for (const template of templates) {
+        const count = shotList[i]?.[template.id] ?? 0;
+        // Templates that mention a style are shot once per selected creative style.
+        const templateStyles: (CreativeStyle | undefined)[] = usesCreativeStyle(template) ? styles : [undefined];
+        for (const style of templateStyles) {
+            const styleValues = style ? {
+                styleLabel: CREATIVE_STYLES[style].label,
+                styleSummary: CREATIVE_STYLES[style].summary,
+                styleDirection: buildStyleDirection(style),
+            } : {};
+            const fill = (text: string) => fillTemplate(text, { ...values, ...styleValues });
+            // Repeats of the same template are separate takes, numbered so they can be told apart.
+            for (let take = 1; take <= count; take++) {
+                shots.push({
+                    title: count > 1 ? `${fill(template.title)} #${take}` : fill(template.title),
+                    description: fill(template.description),
+                    prompt: fill(template.prompt),
+                    category: template.category,
+                    aspectRatio: template.aspectRatio,
+                    creativeStyle: style,
+                });
+            }
+        }
     }
 
-    // --- Lifestyle Images ---
-    if (totalVariations === 1) {
-        // Rule: If only 1 variation (or no spec sheet found), generate 3 distinct lifestyle images.
-        
-        // Lifestyle 1: Standard Living Area
-        updateMessage(`Generating lifestyle scene 1/3...`);
-        const lifestylePrompt1 = `Using the provided images as a visual guide, create a super natural, high-end lifestyle image of the ${primaryProductName}. Place it in a beautifully styled, minimalist living room with a Japandi aesthetic. Soft, organic natural daylight entering from a window. The room should feel lived-in but tidy. ${photographyStyle} ${instructionsText} ${preservationInstruction} ${cleanImageInstruction}`;
-        const lifestyleBase64_1 = await regenerateImageFromSource(sourceFiles, lifestylePrompt1);
-        variationImages.push({
-            id: crypto.randomUUID(),
-            title: 'Lifestyle: Living Space',
-            description: 'Natural minimalist living room context.',
-            base64: lifestyleBase64_1,
-            sourcePrompt: lifestylePrompt1,
-            sourceAspectRatio: '16:9',
-            category: 'lifestyle',
-        });
-
-        // Lifestyle 2: Detail/Close-up or Cozy Corner
-        updateMessage(`Generating lifestyle scene 2/3...`);
-        const lifestylePrompt2 = `Using the provided images as a visual guide, create a cozy, atmospheric lifestyle image of the ${primaryProductName}. Focus on the texture of the materials. Place it in a warm, inviting corner with soft evening light and organic decor elements like a plant or a rug. ${photographyStyle} ${instructionsText} ${preservationInstruction} ${cleanImageInstruction}`;
-        const lifestyleBase64_2 = await regenerateImageFromSource(sourceFiles, lifestylePrompt2);
-        variationImages.push({
-            id: crypto.randomUUID(),
-            title: 'Lifestyle: Atmospheric/Cozy',
-            description: 'Warm lighting with focus on texture and atmosphere.',
-            base64: lifestyleBase64_2,
-            sourcePrompt: lifestylePrompt2,
-            sourceAspectRatio: '16:9',
-            category: 'lifestyle',
-        });
-
-         // Lifestyle 3: High-End/Editorial
-         updateMessage(`Generating lifestyle scene 3/3...`);
-         const lifestylePrompt3 = `Using the provided images as a visual guide, create a high-end editorial style image of the ${primaryProductName}. Place it in a spacious, architectural concrete loft or gallery space. Dramatic but soft shadows, strong composition, magazine quality. ${photographyStyle} ${instructionsText} ${preservationInstruction} ${cleanImageInstruction}`;
-         const lifestyleBase64_3 = await regenerateImageFromSource(sourceFiles, lifestylePrompt3);
-         variationImages.push({
-             id: crypto.randomUUID(),
-             title: 'Lifestyle: Architectural Loft',
-             description: 'High-end editorial style in a loft.',
-             base64: lifestyleBase64_3,
-             sourcePrompt: lifestylePrompt3,
-             sourceAspectRatio: '16:9',
-             category: 'lifestyle',
-         });
-
-    } else {
-        // Standard behavior for multiple variations: 1 Lifestyle shot per variation
-        updateMessage(`Generating lifestyle scene for variation ${i + 1}/${totalVariations}...`);
-        const lifestylePrompt = `Using the provided images as a visual guide, create a trendy, aspirational lifestyle image of the ${primaryProductName}. Variation details: Size is ${variation.Size}, color is ${variation.Color}. Place it in a beautifully styled, minimalist interior with a Japandi or Scandinavian aesthetic. The lighting must be bright, soft, and natural. ${photographyStyle} ${instructionsText} ${preservationInstruction} ${cleanImageInstruction}`;
-        const lifestyleBase64 = await regenerateImageFromSource(sourceFiles, lifestylePrompt);
-        variationImages.push({
-            id: crypto.randomUUID(),
-            title: 'Minimalist Lifestyle Scene',
-            description: 'Product shown in a stylish, modern home.',
-            base64: lifestyleBase64,
-            sourcePrompt: lifestylePrompt,
-            sourceAspectRatio: '16:9',
-            category: 'lifestyle',
-        });
+    // Every shot is produced once per target ratio selected for its category,
+    // or in its template's own ratio when none are selected.
+    // Images start as pending placeholders and are filled in as requests finish.
+    const variationImages: GeneratedImage[] = [];
+    for (const shot of shots) {
+        const ratios = aspectRatios[shot.category].length > 0 ? aspectRatios[shot.category] : [shot.aspectRatio];
+        for (const ratio of ratios) {
+            variationImages.push({
+                id: crypto.randomUUID(),
+                title: shot.title,
+                description: shot.description,
+                base64: '',
+                sourcePrompt: shot.prompt,
+                sourceAspectRatio: ratio,
+                category: shot.category,
+                creativeStyle: shot.creativeStyle,
+                versions: [],
+                currentVersionId: '',
+                status: 'pending',
+            });
+        }
     }
 
     variationResults.push({
       id: crypto.randomUUID(),
       variation: variation,
       images: variationImages,
+      dimensions: variations[i].dimensions,
+      weight: variations[i].weight,
+      copy: variationCopy[i],
     });
   }
   
-  updateMessage('Finalizing your photoshoot...');
-
-  return { 
+  const content: GeneratedContent = {
       baseDetails, 
+      translations,
+      pricing: options.pricing ?? loadPricingDefaults(),
+      brandProfileId: brand.id,
       variationResults, 
-      furnitureCategory: 'furniture' // Generic category for now
+      furnitureCategory: 'furniture', // Generic category for now
+      specSheet,
   };
+  // Hand out copies: the arrays below are filled in as shots finish.
+  const snapshot = (): GeneratedContent => ({
+      ...content,
+      variationResults: variationResults.map(result => ({ ...result, images: [...result.images] })),
+  });
+  callbacks.onContentReady?.(snapshot());
+
+  // Exports fall back to the shot title when no alt text could be written.
+  const describeImage = (base64: string, variation: Record<string, string>) =>
+      generateAltText(base64, baseDetails.names[0] || productName, variation, options.usage).catch(err => {
+          console.warn('Could not write alt text', err);
+          return undefined;
+      });
+
+  // Generate all shots in parallel (bounded). A failed shot is marked on its own
+  // image so the rest of the run keeps going.
+  const tasks = variationResults.flatMap(result => result.images.map((placeholder, index) => async () => {
+      callbacks.onImageUpdate?.(result.id, { ...placeholder, status: 'generating' });
+      let image: GeneratedImage;
+      try {
+          const { base64, quality } = await generateWithQualityGate(
+              () => regenerateImageFromSource(sourceFiles, placeholder.sourcePrompt, placeholder.sourceAspectRatio, options.usage),
+              placeholder.category,
+              sourceFiles,
+              options.quality ?? DEFAULT_QUALITY_SETTINGS,
+              (attempt, issues) => console.warn(`"${placeholder.title}" failed quality checks, regenerating (attempt ${attempt}).`, issues),
+              options.usage,
+          );
+          const altText = await describeImage(base64, result.variation);
+          image = withAltText(withQualityReport(addImageVersion(placeholder, base64, placeholder.sourcePrompt, 'generate'), quality), altText);
+      } catch (err) {
+          console.error(err);
+          image = { ...placeholder, status: 'error', error: describeError(err, 'Image generation failed.') };
+      }
+      result.images[index] = image;
+      callbacks.onImageUpdate?.(result.id, image);
+  }));
+
+  let completed = 0;
+  updateMessage(`Generating ${tasks.length} images...`);
+  await runWithConcurrency(tasks.map(task => async () => {
+      await task();
+      completed++;
+      updateMessage(`Generated ${completed}/${tasks.length} images...`);
+  }), options.concurrency ?? MAX_CONCURRENT_SHOTS);
+
+  return snapshot();
 };
@@ -0,0 +1,129 @@
+import { PhotoshootProject, ProjectSummary } from '../types';
+import { createThumbnail } from '../utils/imageUtils';
+
+const DB_NAME = 'ai-furniture-photoshoot';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+// Summaries live in their own store so listing projects never loads full image data.
+const SUMMARIES_STORE = 'projectSummaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open the project database.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Project database transaction was aborted.'));
+  });
+};
+
+const buildSummary = async (project: PhotoshootProject): Promise<ProjectSummary> => {
+  const variationResults = project.content?.variationResults ?? [];
+  const firstImage = variationResults.flatMap(result => result.images).find(image => image.base64);
+
+  let thumbnail: string | undefined;
+  if (firstImage) {
+    try {
+      thumbnail = await createThumbnail(firstImage.base64);
+    } catch (err) {
+      console.warn('Could not create project thumbnail', err);
+    }
+  }
+
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    variationCount: variationResults.length,
+    imageCount: variationResults.reduce((count, result) => count + result.images.length, 0),
+    thumbnail,
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SUMMARIES_STORE, 'readonly');
+  const summaries = await requestToPromise(tx.objectStore(SUMMARIES_STORE).getAll() as IDBRequest<ProjectSummary[]>);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<PhotoshootProject | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, 'readonly');
+  const project = await requestToPromise(tx.objectStore(PROJECTS_STORE).get(id) as IDBRequest<PhotoshootProject | undefined>);
+  return project ?? null;
+};
+
+export const saveProject = async (project: PhotoshootProject): Promise<PhotoshootProject> => {
+  const saved = { ...project, updatedAt: Date.now() };
+  // Build the summary (thumbnail) before opening the transaction; IDB transactions auto-commit across awaits.
+  const summary = await buildSummary(saved);
+
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).put(saved);
+  tx.objectStore(SUMMARIES_STORE).put(summary);
+  await transactionDone(tx);
+  return saved;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const project = await loadProject(id);
+  if (!project) {
+    throw new Error('Project not found.');
+  }
+  await saveProject({ ...project, name });
+};
+
+export const duplicateProject = async (id: string): Promise<PhotoshootProject> => {
+  const project = await loadProject(id);
+  if (!project) {
+    throw new Error('Project not found.');
+  }
+  const now = Date.now();
+  return saveProject({
+    ...project,
+    id: crypto.randomUUID(),
+    name: `${project.name} (copy)`,
+    createdAt: now,
+  });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, SUMMARIES_STORE], 'readwrite');
+  tx.objectStore(PROJECTS_STORE).delete(id);
+  tx.objectStore(SUMMARIES_STORE).delete(id);
+  await transactionDone(tx);
+};
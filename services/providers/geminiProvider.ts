@@ -0,0 +1,81 @@
+import { GenerateContentResponse, GoogleGenAI, Modality, Part } from "@google/genai";
+import { UsageContext } from '../../types';
+import { extractImageData, extractJson, withGeminiRetry } from "../geminiRequest";
+import { recordUsage } from "../usageTracker";
+import { ImageGenerationProvider, InlineImage, JsonGenerationRequest, TextGenerationProvider, UsageTask } from "./types";
+
+export const GEMINI_MODELS = {
+    text: 'gemini-2.5-pro',
+    image: 'gemini-2.5-flash-image',
+};
+
+// Lazily initialize the AI client to prevent app crash on load if API key is missing.
+const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const toParts = (images: InlineImage[]): Part[] => images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } }));
+
+// Logs one response's token counts; called per attempt, before the response is checked.
+const recordResponse = (
+    response: GenerateContentResponse,
+    request: { task: UsageTask; model: string; inputImages: number; startedAt: number; usage?: UsageContext },
+): void => {
+    const metadata = response.usageMetadata;
+    recordUsage({
+        ...request.usage,
+        task: request.task,
+        provider: 'gemini',
+        model: request.model,
+        inputTokens: metadata?.promptTokenCount ?? 0,
+        outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+        inputImages: request.inputImages,
+        outputImages: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData?.data).length ?? 0,
+        latencyMs: Math.round(performance.now() - request.startedAt),
+    });
+};
+
+export const geminiTextProvider: TextGenerationProvider = {
+    name: 'gemini',
+    generateJson: async <T>({ task, prompt, images, schema, usage }: JsonGenerationRequest) => {
+        const ai = getAiClient();
+        return withGeminiRetry(async () => {
+            const startedAt = performance.now();
+            const response = await ai.models.generateContent({
+                model: GEMINI_MODELS.text,
+                contents: { parts: [...toParts(images), { text: prompt }] },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: schema,
+                },
+            });
+            recordResponse(response, { task, model: GEMINI_MODELS.text, inputImages: images.length, startedAt, usage });
+            return extractJson<T>(response, `The ${task} request returned no data.`);
+        });
+    },
+};
+
+export const geminiImageProvider: ImageGenerationProvider = {
+    name: 'gemini',
+    generateImage: async ({ kind, prompt, images, aspectRatio, usage }) => {
+        const ai = getAiClient();
+        const image = await withGeminiRetry(async () => {
+            const startedAt = performance.now();
+            const response = await ai.models.generateContent({
+                model: GEMINI_MODELS.image,
+                contents: { parts: [...toParts(images), { text: prompt }] },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+                },
+            });
+            recordResponse(response, {
+                task: kind === 'edit' ? 'editImage' : 'generateImage',
+                model: GEMINI_MODELS.image,
+                inputImages: images.length,
+                startedAt,
+                usage,
+            });
+            return extractImageData(response, 'The image request returned no image data.');
+        });
+        return { data: image.data, mimeType: image.mimeType || 'image/png' };
+    },
+};
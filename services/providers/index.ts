@@ -0,0 +1,12 @@
+import { geminiImageProvider, geminiTextProvider } from "./geminiProvider";
+import { mockImageProvider, mockTextProvider } from "./mockProvider";
+import { ImageGenerationProvider, TextGenerationProvider } from "./types";
+
+export type { ImageGenerationProvider, InlineImage, TextGenerationProvider } from "./types";
+
+// Selected with AI_PROVIDER in .env.local; anything other than "mock" uses Gemini.
+const useMock = process.env.AI_PROVIDER === 'mock';
+
+export const getTextProvider = (): TextGenerationProvider => useMock ? mockTextProvider : geminiTextProvider;
+
+export const getImageProvider = (): ImageGenerationProvider => useMock ? mockImageProvider : geminiImageProvider;
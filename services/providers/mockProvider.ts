@@ -0,0 +1,152 @@
+import { AspectRatio } from '../../types';
+import { loadImage } from '../../utils/imageUtils';
+import { recordUsage } from '../usageTracker';
+import { ImageGenerationProvider, InlineImage, JsonGenerationRequest, TextGenerationProvider, TextTask } from "./types";
+
+// Small delay so the UI behaves like it does against a real backend (loading states, streaming).
+const MOCK_LATENCY_MS = 400;
+
+const MOCK_DIMENSIONS: Record<AspectRatio, [number, number]> = {
+    '1:1': [1024, 1024],
+    '16:9': [1344, 768],
+    '9:16': [768, 1344],
+};
+
+const CANNED_RESPONSES: Record<TextTask, unknown> = {
+    parseSpecSheet: {
+        productName: 'Mock Modular Sofa',
+        modelNo: 'MOCK-SF-001',
+        variations: [
+            { attributes: { Size: 'Two seats', Dimensions: '180*95*78CM', Color: 'Beige', Material: 'Velvet' }, weight: '48KG', seatHeight: '45CM' },
+            { attributes: { Size: 'Three seats', Dimensions: '240*95*78CM', Color: 'Beige', Material: 'Velvet' }, weight: '62KG', seatHeight: '45CM' },
+        ],
+    },
+    productDetails: {
+        names: ['Mock Modular Sofa', 'The Dune Lounger', 'Cloudline Sofa'],
+        suggestedPrice: '$1,299.99',
+        description: 'A placeholder description generated offline by the mock provider.\nUse it to test layouts, editing and exports without calling a live model.',
+        tags: ['sofa', 'velvet', 'modular', 'living room', 'mock'],
+        seoTitle: 'Mock Modular Velvet Sofa',
+        seoDescription: 'Offline placeholder copy for development and demos.',
+    },
+    rewriteField: {
+        value: 'Rewritten offline by the mock provider.',
+    },
+    translateDetails: {
+        names: ['Mock Modular Sofa', 'Dune Lounger', 'Cloudline'],
+        description: 'Placeholder localized copy from the mock provider.\nThe same text is returned for every market.',
+        tags: ['sofa', 'velvet', 'modular', 'mock'],
+        seoTitle: 'Mock Modular Sofa (localized)',
+        seoDescription: 'Offline placeholder translation for development and demos.',
+        socialMediaCaption: 'Mock Modular Sofa, now in your market. #mock',
+        measurements: 'W 180cm x D 95cm x H 78cm',
+        shipping: 'Placeholder shipping note.',
+        careInstructions: 'Placeholder care instructions.',
+    },
+    variationCopy: {
+        variations: [
+            { blurb: 'The two-seat Mock Modular Sofa in beige velvet, sized for smaller living rooms.', seoTitle: 'Mock Modular Sofa, Two Seats, Beige Velvet' },
+            { blurb: 'The three-seat Mock Modular Sofa in beige velvet, with room for the whole family.', seoTitle: 'Mock Modular Sofa, Three Seats, Beige Velvet' },
+        ],
+    },
+    altText: {
+        altText: 'Beige velvet modular sofa shown in a placeholder scene from the mock provider',
+    },
+    qualityReview: {
+        issues: [],
+    },
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Deterministic 32-bit string hash so the same prompt always gives the same placeholder.
+const hashString = (value: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+    const words = text.split(/\s+/);
+    const lines: string[] = [];
+    let line = '';
+    for (const word of words) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+            if (lines.length === maxLines) break;
+        } else {
+            line = candidate;
+        }
+    }
+    if (lines.length < maxLines && line) lines.push(line);
+    return lines;
+};
+
+const renderPlaceholder = async (prompt: string, aspectRatio: AspectRatio, baseImage?: InlineImage): Promise<InlineImage> => {
+    const base = baseImage ? await loadImage(`data:${baseImage.mimeType};base64,${baseImage.data}`) : null;
+    const [width, height] = base ? [base.naturalWidth, base.naturalHeight] : MOCK_DIMENSIONS[aspectRatio];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Canvas 2D context is not available.');
+    }
+
+    if (base) {
+        // Edits keep the previous image and mark the change with a caption band.
+        ctx.drawImage(base, 0, 0, width, height);
+    } else {
+        const hue = hashString(prompt) % 360;
+        const gradient = ctx.createLinearGradient(0, 0, width, height);
+        gradient.addColorStop(0, `hsl(${hue}, 45%, 82%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 45%, 65%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.7)';
+    ctx.fillRect(0, height - 220, width, 220);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 36px sans-serif';
+    ctx.fillText(base ? 'MOCK EDIT' : `MOCK ${aspectRatio}`, 40, height - 160);
+    ctx.font = '24px sans-serif';
+    wrapText(ctx, prompt, width - 80, 3).forEach((line, i) => ctx.fillText(line, 40, height - 110 + i * 32));
+
+    return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+export const mockTextProvider: TextGenerationProvider = {
+    name: 'mock',
+    generateJson: async <T>({ task, images, usage }: JsonGenerationRequest) => {
+        await sleep(MOCK_LATENCY_MS);
+        // Logged without tokens so the usage panel can be tried offline
+        recordUsage({ ...usage, task, provider: 'mock', model: 'mock', inputTokens: 0, outputTokens: 0, inputImages: images.length, outputImages: 0, latencyMs: MOCK_LATENCY_MS });
+        // Deep copy so callers can't mutate the canned data.
+        return JSON.parse(JSON.stringify(CANNED_RESPONSES[task])) as T;
+    },
+};
+
+export const mockImageProvider: ImageGenerationProvider = {
+    name: 'mock',
+    generateImage: async ({ kind, prompt, images, aspectRatio, usage }) => {
+        await sleep(MOCK_LATENCY_MS);
+        recordUsage({
+            ...usage,
+            task: kind === 'edit' ? 'editImage' : 'generateImage',
+            provider: 'mock',
+            model: 'mock',
+            inputTokens: 0,
+            outputTokens: 0,
+            inputImages: images.length,
+            outputImages: 1,
+            latencyMs: MOCK_LATENCY_MS,
+        });
+        return renderPlaceholder(prompt, aspectRatio ?? '1:1', kind === 'edit' ? images[0] : undefined);
+    },
+};
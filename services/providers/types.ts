@@ -0,0 +1,41 @@
+import { Schema } from "@google/genai";
+import { AspectRatio, UsageContext } from '../../types';
+
+// Base64 image payload without the data URL prefix
+export interface InlineImage {
+    data: string;
+    mimeType: string;
+}
+
+// Identifies what a text request is for, so offline providers can answer with canned data
+export type TextTask = 'parseSpecSheet' | 'productDetails' | 'rewriteField' | 'translateDetails' | 'variationCopy' | 'altText' | 'qualityReview';
+
+// Every kind of billed call, as recorded in the usage log
+export type UsageTask = TextTask | 'generateImage' | 'editImage';
+
+export interface JsonGenerationRequest {
+    task: TextTask;
+    prompt: string;
+    images: InlineImage[];
+    schema: Schema;
+    usage?: UsageContext;
+}
+
+export interface ImageGenerationRequest {
+    // 'edit' requests carry the image being edited as the first input
+    kind: 'generate' | 'edit';
+    prompt: string;
+    images: InlineImage[];
+    aspectRatio?: AspectRatio;
+    usage?: UsageContext;
+}
+
+export interface TextGenerationProvider {
+    readonly name: string;
+    generateJson: <T>(request: JsonGenerationRequest) => Promise<T>;
+}
+
+export interface ImageGenerationProvider {
+    readonly name: string;
+    generateImage: (request: ImageGenerationRequest) => Promise<InlineImage>;
+}
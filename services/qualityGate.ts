@@ -0,0 +1,127 @@
+import { Type } from "@google/genai";
+import { GeneratedImage, ImageCategory, QualityIssue, QualityReport, QualitySettings, UsageContext } from '../types';
+import { fileToInlineImage } from "../utils/fileUtils";
+import { analyzeImagePixels } from "../utils/imageQuality";
+import { loadSetting, saveSetting } from "../utils/settingsStorage";
+import { getTextProvider } from "./providers";
+
+const QUALITY_SETTINGS_KEY = 'qualityGate';
+
+export const DEFAULT_QUALITY_SETTINGS: QualitySettings = {
+    enabled: true,
+    visionCheck: false,
+    maxAutoRetries: 0,
+};
+
+export const loadQualitySettings = (): QualitySettings => ({
+    ...DEFAULT_QUALITY_SETTINGS,
+    ...loadSetting<Partial<QualitySettings>>(QUALITY_SETTINGS_KEY, {}),
+});
+
+export const saveQualitySettings = (settings: QualitySettings): void => {
+    saveSetting(QUALITY_SETTINGS_KEY, settings);
+};
+
+// Result of checking one image; the caller attaches the version it belongs to.
+export type QualityResult = Omit<QualityReport, 'versionId'>;
+
+const VISION_PROBLEMS: Record<string, string> = {
+    text: 'Contains text, numbers or a watermark',
+    arrows: 'Contains arrows, dimension lines or annotations',
+    extraFurniture: 'Shows extra or duplicated furniture',
+    changedDesign: 'The furniture design differs from the source images',
+};
+
+const reviewWithVision = async (base64: string, sourceFiles: File[], usage?: UsageContext): Promise<QualityIssue[]> => {
+    const sources = await Promise.all(sourceFiles.map(fileToInlineImage));
+    const prompt = `
+    The first image is a generated product photo. The remaining images are the original product references.
+    Report only clear problems in the generated photo:
+    - "text": any text, numbers, labels or watermarks
+    - "arrows": arrows, dimension lines, measurement callouts or other annotations
+    - "extraFurniture": furniture pieces of the product type that are not in the references, or the product shown more than once
+    - "changedDesign": the product's shape, proportions, materials or details differ from the references
+    Return an empty list when the photo is clean.`;
+
+    const result = await getTextProvider().generateJson<{ issues: { type: string; detail: string }[] }>({
+        task: 'qualityReview',
+        prompt,
+        images: [{ mimeType: 'image/png', data: base64 }, ...sources],
+        usage,
+        schema: {
+            type: Type.OBJECT,
+            properties: {
+                issues: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            type: { type: Type.STRING, enum: Object.keys(VISION_PROBLEMS) },
+                            detail: { type: Type.STRING },
+                        },
+                        required: ['type', 'detail'],
+                    },
+                },
+            },
+            required: ['issues'],
+        },
+    });
+
+    return result.issues.map(issue => ({
+        check: 'vision',
+        message: `${VISION_PROBLEMS[issue.type] ?? 'Problem found'}${issue.detail ? `: ${issue.detail}` : ''}.`,
+    }));
+};
+
+// Stores a check result on the image, tied to its current version.
+export const withQualityReport = (image: GeneratedImage, quality?: QualityResult): GeneratedImage =>
+    quality ? { ...image, quality: { ...quality, versionId: image.currentVersionId } } : image;
+
+/**
+ * Runs the local pixel checks and, when enabled, the vision-model review.
+ * A failed vision request is logged and reported as unchecked rather than failing the image.
+ */
+export const checkImageQuality = async (
+    base64: string,
+    category: ImageCategory,
+    sourceFiles: File[],
+    settings: QualitySettings,
+    usage?: UsageContext,
+): Promise<Omit<QualityResult, 'attempts'>> => {
+    const issues = await analyzeImagePixels(base64, category);
+    let visionChecked = false;
+    if (settings.visionCheck) {
+        try {
+            issues.push(...await reviewWithVision(base64, sourceFiles, usage));
+            visionChecked = true;
+        } catch (err) {
+            console.warn('Vision quality review failed; keeping the pixel checks only.', err);
+        }
+    }
+    return { passed: issues.length === 0, issues, visionChecked };
+};
+
+/**
+ * Generates an image and checks it, regenerating failures up to `settings.maxAutoRetries` times.
+ * Returns the last attempt with its report (no report when the gate is disabled).
+ */
+export const generateWithQualityGate = async (
+    generate: () => Promise<string>,
+    category: ImageCategory,
+    sourceFiles: File[],
+    settings: QualitySettings,
+    onRetry?: (attempt: number, issues: QualityIssue[]) => void,
+    usage?: UsageContext,
+): Promise<{ base64: string; quality?: QualityResult }> => {
+    for (let attempt = 1; ; attempt++) {
+        const base64 = await generate();
+        if (!settings.enabled) {
+            return { base64 };
+        }
+        const result = await checkImageQuality(base64, category, sourceFiles, settings, usage);
+        if (result.passed || attempt > settings.maxAutoRetries) {
+            return { base64, quality: { ...result, attempts: attempt } };
+        }
+        onRetry?.(attempt + 1, result.issues);
+    }
+};
@@ -0,0 +1,120 @@
+import { loadSetting, saveSetting } from '../utils/settingsStorage';
+import { GEMINI_MODELS } from './providers/geminiProvider';
+import { UsageTask } from './providers/types';
+import { UsageRecord } from './usageTracker';
+
+const PRICE_TABLE_KEY = 'usagePrices';
+
+// USD per million tokens. Image output is billed as output tokens (about 1,290 per image).
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; edit them in the usage panel when they change.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    [GEMINI_MODELS.text]: { inputPerMillion: 1.25, outputPerMillion: 10 },
+    [GEMINI_MODELS.image]: { inputPerMillion: 0.3, outputPerMillion: 30 },
+    mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+export const loadPriceTable = (): PriceTable => ({
+    ...DEFAULT_PRICE_TABLE,
+    ...loadSetting<PriceTable>(PRICE_TABLE_KEY, {}),
+});
+
+export const savePriceTable = (prices: PriceTable): void => {
+    saveSetting(PRICE_TABLE_KEY, prices);
+};
+
+const tokenCost = (price: ModelPrice, inputTokens: number, outputTokens: number): number =>
+    (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+
+export interface UsageSummary {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    outputImages: number;
+    latencyMs: number;
+    cost: number;
+    unpricedCalls: number; // Calls to models missing from the price table, left out of `cost`
+}
+
+export const summarizeUsage = (records: UsageRecord[], prices: PriceTable): UsageSummary =>
+    records.reduce<UsageSummary>((summary, record) => {
+        const price = prices[record.model];
+        return {
+            calls: summary.calls + 1,
+            inputTokens: summary.inputTokens + record.inputTokens,
+            outputTokens: summary.outputTokens + record.outputTokens,
+            outputImages: summary.outputImages + record.outputImages,
+            latencyMs: summary.latencyMs + record.latencyMs,
+            cost: summary.cost + (price ? tokenCost(price, record.inputTokens, record.outputTokens) : 0),
+            unpricedCalls: summary.unpricedCalls + (price ? 0 : 1),
+        };
+    }, { calls: 0, inputTokens: 0, outputTokens: 0, outputImages: 0, latencyMs: 0, cost: 0, unpricedCalls: 0 });
+
+// Rough per-call token counts used until the log has real calls to average.
+// Each input image costs about 258 tokens.
+const TYPICAL_TOKENS: Partial<Record<UsageTask, (sourceImages: number) => { input: number; output: number }>> = {
+    productDetails: () => ({ input: 600, output: 1500 }),
+    translateDetails: () => ({ input: 1200, output: 1500 }),
+    variationCopy: () => ({ input: 700, output: 400 }),
+    altText: () => ({ input: 258 + 100, output: 40 }),
+    generateImage: sourceImages => ({ input: 258 * sourceImages + 700, output: 1290 }),
+    qualityReview: sourceImages => ({ input: 258 * (sourceImages + 1) + 250, output: 500 }),
+};
+
+// Averages need a few live calls to be meaningful
+const MIN_HISTORY = 3;
+
+const averageTokens = (records: UsageRecord[], task: UsageTask, sourceImages: number) => {
+    const live = records.filter(record => record.task === task && record.provider !== 'mock' && record.inputTokens > 0);
+    if (live.length < MIN_HISTORY) {
+        return { ...TYPICAL_TOKENS[task]!(sourceImages), fromHistory: false };
+    }
+    return {
+        input: live.reduce((sum, record) => sum + record.inputTokens, 0) / live.length,
+        output: live.reduce((sum, record) => sum + record.outputTokens, 0) / live.length,
+        fromHistory: true,
+    };
+};
+
+export interface CostEstimate {
+    cost: number;
+    calls: number;
+    fromHistory: boolean; // False when any part fell back to typical token counts
+}
+
+/**
+ * Pre-flight estimate for a photoshoot: the copy requests plus one image call and one alt text call
+ * per shot, one translation per target market, and one vision review per shot when enabled.
+ * Automatic quality retries are not included.
+ */
+export const estimateGenerationCost = (
+    shot: { imageCount: number; sourceImages: number; visionReview: boolean; translations: number },
+    records: UsageRecord[],
+    prices: PriceTable,
+): CostEstimate => {
+    const parts: [UsageTask, string, number][] = [
+        ['productDetails', GEMINI_MODELS.text, 1],
+        ['translateDetails', GEMINI_MODELS.text, shot.translations],
+        ['variationCopy', GEMINI_MODELS.text, 1],
+        ['generateImage', GEMINI_MODELS.image, shot.imageCount],
+        ['altText', GEMINI_MODELS.text, shot.imageCount],
+        ...(shot.visionReview ? [['qualityReview', GEMINI_MODELS.text, shot.imageCount] as [UsageTask, string, number]] : []),
+    ];
+    return parts.reduce<CostEstimate>((estimate, [task, model, count]) => {
+        const tokens = averageTokens(records, task, shot.sourceImages);
+        const price = prices[model];
+        return {
+            cost: estimate.cost + (price ? tokenCost(price, tokens.input, tokens.output) * count : 0),
+            calls: estimate.calls + count,
+            fromHistory: estimate.fromHistory && tokens.fromHistory,
+        };
+    }, { cost: 0, calls: 0, fromHistory: true });
+};
+
+export const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
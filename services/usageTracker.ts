@@ -0,0 +1,44 @@
+import { UsageContext } from '../types';
+import { loadSetting, saveSetting } from '../utils/settingsStorage';
+import { UsageTask } from './providers/types';
+
+const USAGE_LOG_KEY = 'usageLog';
+// Oldest records are dropped past this, keeping the log well within localStorage limits.
+const MAX_RECORDS = 5000;
+
+// One billed model call. Retried attempts are recorded separately since each one is billed.
+export interface UsageRecord extends UsageContext {
+    id: string;
+    timestamp: number;
+    task: UsageTask;
+    provider: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number; // Includes thinking tokens, which are billed as output
+    inputImages: number;
+    outputImages: number;
+    latencyMs: number;
+}
+
+type UsageListener = (records: UsageRecord[]) => void;
+
+const listeners = new Set<UsageListener>();
+
+export const loadUsageLog = (): UsageRecord[] => loadSetting<UsageRecord[]>(USAGE_LOG_KEY, []);
+
+const saveUsageLog = (records: UsageRecord[]): void => {
+    saveSetting(USAGE_LOG_KEY, records);
+    listeners.forEach(listener => listener(records));
+};
+
+export const recordUsage = (record: Omit<UsageRecord, 'id' | 'timestamp'>): void => {
+    saveUsageLog([...loadUsageLog(), { ...record, id: crypto.randomUUID(), timestamp: Date.now() }].slice(-MAX_RECORDS));
+};
+
+export const clearUsageLog = (): void => saveUsageLog([]);
+
+// Calls the listener with the whole log after every change; returns the unsubscribe function.
+export const subscribeToUsage = (listener: UsageListener): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
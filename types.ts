@@ -1,11 +1,103 @@
-export interface GeneratedImage {
+export type AspectRatio = '1:1' | '16:9' | '9:16';
+
+export type ImageCategory = 'studio' | 'lifestyle';
+
+// Target output ratios chosen per shot type for a run; an empty list means each template's own ratio
+export type AspectRatioSelection = Record<ImageCategory, AspectRatio[]>;
+
+// Which products a shot template is used for by default; 'manual' shots only run when added to the shot list
+export type ShotTemplateUsage = 'always' | 'singleVariation' | 'multipleVariations' | 'manual';
+
+// A named, editable shot. Text fields accept {placeholders}, e.g. {productName}, {Color}, {styleDirection}.
+export interface ShotTemplate {
   id: string;
   title: string;
   description: string;
+  category: ImageCategory;
+  aspectRatio: AspectRatio; // Used when the run doesn't pick ratios for this category
+  when: ShotTemplateUsage;
+  prompt: string;
+}
+
+// Prompt fragments shared by every template (and by image edits)
+export interface ShotInstructions {
+  photographyStyle: string;
+  preservationInstruction: string;
+  cleanImageInstruction: string;
+}
+
+export interface ShotTemplateLibrary {
+  instructions: ShotInstructions;
+  templates: ShotTemplate[];
+}
+
+// How many shots of each template (by id) to produce for one variation
+export type ShotCounts = Record<string, number>;
+
+export type ImageOperation = 'generate' | 'edit' | 'regenerate';
+
+export interface ImageVersion {
+  id: string;
+  base64: string;
+  prompt: string; // Full generation prompt, or the edit instruction for edits
+  operation: ImageOperation;
+  createdAt: number;
+  parentVersionId?: string; // Version this one was derived from (edits can branch from older versions)
+}
+
+export type ImageStatus = 'pending' | 'generating' | 'done' | 'error';
+
+// Transparent-background PNG made locally from a studio shot's white background
+export interface ImageCutout {
   base64: string;
-  sourcePrompt: string; // The prompt used to generate it
-  sourceAspectRatio: '1:1' | '16:9' | '9:16';
-  category: 'studio' | 'lifestyle';
+  withShadow: boolean;
+  sourceVersionId: string; // Version it was cut from; stale once the image moves to another version
+}
+
+// Automated checks run on every generated image
+export type QualityCheck = 'backgroundPurity' | 'cornerShading' | 'edgeDivider' | 'splitSeam' | 'vision';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  message: string;
+}
+
+export interface QualityReport {
+  versionId: string; // Version the checks ran on
+  passed: boolean;
+  issues: QualityIssue[];
+  visionChecked: boolean;
+  attempts: number; // Generations it took, including automatic retries
+}
+
+export interface QualitySettings {
+  enabled: boolean;
+  visionCheck: boolean; // Also ask a vision model about text, arrows, extra furniture or a changed design
+  maxAutoRetries: number; // Regenerate failing images up to this many times
+}
+
+// Alt text written from the image itself; only valid for the version it describes
+export interface ImageAltText {
+  text: string;
+  versionId: string;
+}
+
+export interface GeneratedImage {
+  id: string;
+  title: string;
+  description: string;
+  base64: string; // Image data of the current version
+  sourcePrompt: string; // The prompt used to generate the current version
+  sourceAspectRatio: AspectRatio;
+  category: ImageCategory;
+  creativeStyle?: CreativeStyle; // Scene style used for lifestyle shots
+  versions: ImageVersion[]; // Ordered oldest to newest; empty until the first version is generated
+  currentVersionId: string;
+  status: ImageStatus;
+  error?: string; // Why the last generation attempt failed
+  cutout?: ImageCutout;
+  quality?: QualityReport;
+  altText?: ImageAltText;
 }
 
 export interface ProductDetails {
@@ -22,16 +114,169 @@ export interface ProductDetails {
 }
 
 // New types for variations
+// A length in centimetres; `max` is set for ranges such as adjustable heights (70-90 cm)
+export interface LengthRange {
+  min: number;
+  max?: number;
+}
+
+// Overall size as seen from the front: width side to side, depth front to back
+export interface Dimensions {
+  width?: LengthRange;
+  depth?: LengthRange;
+  height?: LengthRange;
+  seatHeight?: LengthRange;
+}
+
+export interface Weight {
+  kg: number;
+}
+
+export type MeasurementSystem = 'metric' | 'imperial';
+
+// Copy for one variation, written alongside the base product details
+export interface VariationCopy {
+  blurb: string; // One or two sentences on this variation's color, material and size
+  seoTitle: string;
+}
+
 export interface VariationResult {
   id: string; // Unique ID for the result group
   variation: Record<string, string>; // e.g. { Size: 'Three seats', Color: 'Beige' }
   images: GeneratedImage[];
+  // Parsed from the spec sheet; projects saved before these existed only have the Dimensions attribute
+  dimensions?: Dimensions;
+  weight?: Weight;
+  copy?: VariationCopy;
+}
+
+export interface SpecSheetVariation {
+  attributes: Record<string, string>;
+  dimensions?: Dimensions; // Parsed from the Dimensions attribute (plus seat height when listed separately)
+  weight?: Weight;
+}
+
+// Raw product data extracted from the uploaded spec sheet / photos
+export interface ParsedSpecSheet {
+  productName: string;
+  modelNo: string;
+  variations: SpecSheetVariation[];
+}
+
+// Care advice for one material; `material` is matched against the variations' Material values
+export interface CarePolicy {
+  material: string;
+  instructions: string;
 }
 
+// Business facts and copy voice for one store brand
+export interface BrandProfile {
+  id: string;
+  name: string;
+  vendor: string; // Vendor / brand column in exports
+  shippingPolicy: string;
+  carePolicies: CarePolicy[];
+  defaultCareInstructions: string; // Used when no care policy matches the materials
+  bannedWords: string[];
+  requiredPhrases: string[]; // Must appear in the product description
+  toneGuide: string;
+  sampleDescriptions: string[];
+  captionTemplate: string; // Social media caption; {productName} and {productHashtag} are filled in
+}
+
+export interface BrandProfileLibrary {
+  profiles: BrandProfile[];
+  activeProfileId: string; // Used for new photoshoots
+}
+
+// A price change for variations with a matching attribute value, e.g. +30% for Size "Three seats"
+export interface PriceRule {
+  id: string;
+  attribute: string; // Variation attribute name; empty matches any attribute
+  value: string; // Matches the whole value, ignoring case ("Leather" doesn't match "Faux leather")
+  kind: 'percent' | 'amount'; // Amounts are in the source currency
+  amount: number;
+}
+
+export type PriceRounding = 'none' | '.99' | '.00';
+
+export interface PricingSettings {
+  basis: 'suggested' | 'cost'; // Start from the AI's suggested price, or from the unit cost with a markup
+  cost?: number; // Unit cost in the source currency
+  markupPercent: number; // Applied to the cost, e.g. 150 sells a 400 cost for 1000
+  rules: PriceRule[];
+  compareAtPercent: number; // Compare-at price this far above the price; 0 for none
+  rounding: PriceRounding;
+}
+
+// One variation's prices in a market's currency
+export interface VariationPrice {
+  price: number;
+  compareAtPrice?: number;
+}
+
+// Markets the copy can be written for; see utils/locales for their language, currency and units
+export type Locale = 'en-US' | 'fr-CA' | 'de-DE';
+
 export interface GeneratedContent {
-  baseDetails: ProductDetails;
+  baseDetails: ProductDetails; // Copy in the source locale (en-US)
+  translations?: Partial<Record<Locale, ProductDetails>>; // Localized copy for the other markets
+  pricing?: PricingSettings; // How each variation's price is derived
+  brandProfileId?: string; // Brand the copy was written for; its vendor is used in exports
   variationResults: VariationResult[];
   furnitureCategory: string;
+  specSheet: ParsedSpecSheet;
+}
+
+export type CreativeStyle = 'modern_suburban' | 'scandinavian' | 'moody_luxurious' | 'warm_rustic' | 'industrial_loft';
+
+// Run options chosen on the upload screen
+export interface PhotoshootSettings {
+  creativeStyles: CreativeStyle[];
+  aspectRatios: AspectRatioSelection;
+}
+
+// A saved photoshoot, persisted in IndexedDB
+export interface PhotoshootProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sourceImages: File[];
+  userInstructions: string;
+  settings: PhotoshootSettings;
+  content: GeneratedContent | null;
 }
 
-export type CreativeStyle = 'modern_suburban' | 'scandinavian' | 'moody_luxurious' | 'warm_rustic' | 'industrial_loft';
\ No newline at end of file
+// Lightweight listing entry so the project list doesn't load every image
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  variationCount: number;
+  imageCount: number;
+  thumbnail?: string; // Small base64 PNG preview
+}
+
+// Who a model call is attributed to in the usage log: a project and, for full generations, the run
+export interface UsageContext {
+  projectId?: string;
+  runId?: string;
+}
+
+// Batch mode: each group of uploaded files becomes one unattended photoshoot
+export type BatchGrouping = 'folder' | 'prefix';
+
+export type BatchJobStatus = 'queued' | 'analyzing' | 'generating' | 'done' | 'error';
+
+export interface BatchJob {
+  id: string;
+  name: string;
+  files: File[];
+  status: BatchJobStatus;
+  progress?: string; // Latest status message while running
+  error?: string;
+  failedImages?: number;
+  projectId?: string; // Set once the finished photoshoot is saved
+}
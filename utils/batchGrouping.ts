@@ -0,0 +1,43 @@
+import { BatchGrouping } from '../types';
+
+export interface FileGroup {
+  name: string;
+  files: File[];
+}
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Files whose name mentions a spec sheet go first, since the first file is read as the spec sheet.
+const SPEC_SHEET_NAME = /spec|sheet|datasheet/i;
+
+// Parent folder of a file picked through a directory input, e.g. "launch/SOFA-01/front.jpg" -> "SOFA-01"
+const getFolderName = (file: File): string => {
+  const parts = (file.webkitRelativePath || file.name).split('/');
+  return parts.length > 1 ? parts[parts.length - 2] : '';
+};
+
+// Everything before the first "_", "-", space or dot, e.g. "SOFA01_front.jpg" -> "SOFA01"
+const getNamePrefix = (file: File): string => file.name.split(/[_\-\s.]/)[0];
+
+const sortForAnalysis = (files: File[]): File[] => [...files].sort((a, b) => {
+  const specA = SPEC_SHEET_NAME.test(a.name), specB = SPEC_SHEET_NAME.test(b.name);
+  if (specA !== specB) return specA ? -1 : 1;
+  return a.name.localeCompare(b.name, undefined, { numeric: true });
+});
+
+/**
+ * Splits uploaded files into one group per product. Non-image files (e.g. .DS_Store) are ignored,
+ * and files that don't yield a folder or prefix are grouped under "Ungrouped".
+ */
+export const groupFiles = (files: File[], grouping: BatchGrouping): FileGroup[] => {
+  const groups = new Map<string, File[]>();
+  files
+    .filter(file => IMAGE_TYPES.includes(file.type))
+    .forEach(file => {
+      const key = (grouping === 'folder' ? getFolderName(file) : getNamePrefix(file)) || 'Ungrouped';
+      groups.set(key, [...(groups.get(key) ?? []), file]);
+    });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([name, groupFiles]) => ({ name, files: sortForAnalysis(groupFiles) }));
+};
@@ -0,0 +1,89 @@
+import { BrandProfile, BrandProfileLibrary, ProductDetails } from '../types';
+import { fillTemplate } from './shotTemplates';
+import { loadSetting, saveSetting } from './settingsStorage';
+
+const BRAND_PROFILES_SETTING = 'brandProfiles';
+
+export const DEFAULT_BRAND_PROFILE: BrandProfile = {
+  id: 'default',
+  name: 'Default brand',
+  vendor: 'AI Furniture Design',
+  shippingPolicy: 'Ships within 3 to 11 weeks.',
+  carePolicies: [
+    { material: 'Velvet', instructions: 'Vacuum regularly with a soft brush attachment. Blot spills immediately with a clean, dry cloth; do not rub.' },
+    { material: 'Leather', instructions: 'Dust with a soft, dry cloth. Condition every 6 to 12 months and keep out of direct sunlight.' },
+    { material: 'Wood', instructions: 'Wipe with a soft, slightly damp cloth and dry immediately. Use coasters and avoid placing near heat sources.' },
+  ],
+  defaultCareInstructions: 'General care: Wipe clean with a soft, dry cloth. Avoid harsh chemicals.',
+  bannedWords: [],
+  requiredPhrases: [],
+  toneGuide: '',
+  sampleDescriptions: [],
+  captionTemplate: 'Elevate your space with the new {productName}. ✨ #interiordesign #homedecor #{productHashtag}',
+};
+
+const DEFAULT_LIBRARY: BrandProfileLibrary = { profiles: [DEFAULT_BRAND_PROFILE], activeProfileId: DEFAULT_BRAND_PROFILE.id };
+
+export const loadBrandProfiles = (): BrandProfileLibrary => {
+  const stored = loadSetting<BrandProfileLibrary | null>(BRAND_PROFILES_SETTING, null);
+  if (!stored || !Array.isArray(stored.profiles) || stored.profiles.length === 0) return DEFAULT_LIBRARY;
+  // Fields added after a profile was saved take their defaults
+  const profiles = stored.profiles.map(profile => ({ ...DEFAULT_BRAND_PROFILE, ...profile }));
+  const activeProfileId = profiles.some(profile => profile.id === stored.activeProfileId) ? stored.activeProfileId : profiles[0].id;
+  return { profiles, activeProfileId };
+};
+
+export const saveBrandProfiles = (library: BrandProfileLibrary): void => {
+  saveSetting(BRAND_PROFILES_SETTING, library);
+};
+
+// The profile with this id (e.g. the one a project was made with), falling back to the active profile
+export const getBrandProfile = (id?: string): BrandProfile => {
+  const { profiles, activeProfileId } = loadBrandProfiles();
+  return profiles.find(profile => profile.id === id) ?? profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+};
+
+/**
+ * Care text for the given materials: every policy whose material appears in one of them
+ * (e.g. "Wood" matches "Solid oak wood"), or the default text when none match.
+ */
+export const getCareInstructions = (brand: BrandProfile, materials: string[]): string => {
+  const lowerMaterials = materials.map(material => material.toLowerCase());
+  const matches = brand.carePolicies.filter(policy =>
+    policy.material.trim() && lowerMaterials.some(material => material.includes(policy.material.trim().toLowerCase())));
+  if (matches.length === 0) return brand.defaultCareInstructions;
+  return matches.length === 1
+    ? matches[0].instructions
+    : matches.map(policy => `${policy.material}: ${policy.instructions}`).join('\n');
+};
+
+export const buildSocialCaption = (brand: BrandProfile, productName: string): string =>
+  fillTemplate(brand.captionTemplate, { productName, productHashtag: productName.replace(/[^\p{L}\p{N}]+/gu, '') });
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Brand rules the copy breaks: banned words anywhere in the written fields, and required
+ * phrases missing from the description. Matching ignores case.
+ */
+export const findBrandViolations = (details: Pick<ProductDetails, 'names' | 'description' | 'tags' | 'seoTitle' | 'seoDescription'>, brand: BrandProfile): string[] => {
+  const text = [...details.names, details.description, ...details.tags, details.seoTitle, details.seoDescription].join('\n').toLowerCase();
+  const description = details.description.toLowerCase();
+  return [
+    ...brand.bannedWords
+      .filter(word => word.trim() && new RegExp(`(^|[^\\p{L}])${escapeRegExp(word.trim().toLowerCase())}($|[^\\p{L}])`, 'u').test(text))
+      .map(word => `Uses the banned word "${word.trim()}"`),
+    ...brand.requiredPhrases
+      .filter(phrase => phrase.trim() && !description.includes(phrase.trim().toLowerCase()))
+      .map(phrase => `The description is missing the phrase "${phrase.trim()}"`),
+  ];
+};
+
+// Prompt section describing the brand's voice and rules; empty when the profile sets none
+export const describeBrandVoice = (brand: BrandProfile): string => [
+  brand.toneGuide.trim() && `Tone of voice: ${brand.toneGuide.trim()}`,
+  brand.sampleDescriptions.some(sample => sample.trim()) &&
+    `Example descriptions in the brand's voice (match the style, not the content):\n${brand.sampleDescriptions.filter(sample => sample.trim()).map(sample => `---\n${sample.trim()}`).join('\n')}\n---`,
+  brand.bannedWords.some(word => word.trim()) && `Never use these words: ${brand.bannedWords.filter(word => word.trim()).join(', ')}.`,
+  brand.requiredPhrases.some(phrase => phrase.trim()) && `The description must include these phrases exactly: ${brand.requiredPhrases.filter(phrase => phrase.trim()).map(phrase => `"${phrase.trim()}"`).join(', ')}.`,
+].filter(Boolean).join('\n');
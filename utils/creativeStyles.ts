@@ -0,0 +1,54 @@
+import { CreativeStyle } from '../types';
+
+export interface CreativeStyleDefinition {
+  label: string;
+  summary: string;
+  scene: string;
+  lighting: string;
+  props: string;
+}
+
+export const CREATIVE_STYLES: Record<CreativeStyle, CreativeStyleDefinition> = {
+  modern_suburban: {
+    label: 'Modern Suburban',
+    summary: 'Bright family home, open plan, fresh and approachable.',
+    scene: 'a bright, open-plan modern suburban family home with light oak floors, white walls and large sliding glass doors to a garden',
+    lighting: 'Clean, airy midday daylight flooding in from large windows.',
+    props: 'A neutral area rug, a stack of coffee table books, a ceramic vase with fresh greenery and a softly blurred garden view.',
+  },
+  scandinavian: {
+    label: 'Scandinavian',
+    summary: 'Light woods, soft textiles, calm Japandi-inspired minimalism.',
+    scene: 'a beautifully styled, minimalist Scandinavian living space with a Japandi touch, pale wood floors and soft white plaster walls',
+    lighting: 'Soft, organic natural daylight entering from a window, bright and diffused.',
+    props: 'A wool throw, a low oak side table, a paper lantern and a single sculptural plant.',
+  },
+  moody_luxurious: {
+    label: 'Moody Luxurious',
+    summary: 'Deep tones, rich materials, hotel-lounge drama.',
+    scene: 'a moody, luxurious interior with deep charcoal or forest green walls, marble accents and brass details',
+    lighting: 'Low, warm evening light from sculptural lamps with gentle pools of light and soft, dramatic shadows.',
+    props: 'A marble side table, a brass floor lamp, a thick textured rug and a few curated art books.',
+  },
+  warm_rustic: {
+    label: 'Warm Rustic',
+    summary: 'Reclaimed wood, natural fibres, cozy farmhouse warmth.',
+    scene: 'a cozy, warm rustic interior with exposed timber beams, a reclaimed wood floor and limewashed walls',
+    lighting: 'Warm golden-hour sunlight with a soft, inviting glow.',
+    props: 'A chunky knit throw, a jute rug, a wicker basket with firewood and dried flowers in a stoneware jug.',
+  },
+  industrial_loft: {
+    label: 'Industrial Loft',
+    summary: 'Concrete, steel and tall windows, editorial and architectural.',
+    scene: 'a spacious, architectural industrial loft with polished concrete floors, exposed brick and tall black steel-framed windows',
+    lighting: 'Dramatic but soft directional daylight from the tall windows, strong composition, magazine quality.',
+    props: 'A large abstract canvas leaning on the wall, a vintage leather pouf and an oversized potted fiddle-leaf fig.',
+  },
+};
+
+export const DEFAULT_CREATIVE_STYLES: CreativeStyle[] = ['scandinavian'];
+
+export const buildStyleDirection = (style: CreativeStyle): string => {
+  const definition = CREATIVE_STYLES[style];
+  return `Scene: ${definition.scene}. Lighting: ${definition.lighting} Props and styling: ${definition.props}`;
+};
@@ -0,0 +1,131 @@
+import { GeneratedImage, ImageCutout } from '../types';
+import { loadImage } from './imageUtils';
+
+// Darkest channel value still treated as background. Pixels between the two thresholds
+// become partly transparent so anti-aliased edges stay smooth.
+const BACKGROUND_MIN = 225;
+const FULLY_TRANSPARENT_MIN = 245;
+
+// Soft contact shadow under the product, relative to its bounding box
+const SHADOW_OPACITY = 0.35;
+const SHADOW_WIDTH = 0.45;
+const SHADOW_HEIGHT = 0.04;
+
+/**
+ * Finds the background by flood-filling near-white pixels inward from the image border, so white
+ * areas enclosed by the product (cushions, tabletops) are kept. Returns the alpha for every pixel.
+ */
+const computeAlpha = (pixels: ImageData): Uint8ClampedArray => {
+  const { width, height, data } = pixels;
+  const alpha = new Uint8ClampedArray(width * height).fill(255);
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  const darkest = (index: number) => Math.min(data[index * 4], data[index * 4 + 1], data[index * 4 + 2]);
+  const visit = (index: number) => {
+    if (visited[index]) return;
+    visited[index] = 1;
+    if (darkest(index) >= BACKGROUND_MIN) stack.push(index);
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const value = darkest(index);
+    alpha[index] = value >= FULLY_TRANSPARENT_MIN
+      ? 0
+      : Math.round(255 * (FULLY_TRANSPARENT_MIN - value) / (FULLY_TRANSPARENT_MIN - BACKGROUND_MIN));
+
+    const x = index % width;
+    if (x > 0) visit(index - 1);
+    if (x < width - 1) visit(index + 1);
+    if (index >= width) visit(index - width);
+    if (index < width * (height - 1)) visit(index + width);
+  }
+
+  return alpha;
+};
+
+// Bounding box of the visible product, or null when everything was removed
+const getBounds = (alpha: Uint8ClampedArray, width: number, height: number) => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[y * width + x] > 128) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+  return maxX < 0 ? null : { minX, minY, maxX, maxY };
+};
+
+/**
+ * Removes the near-white background of a studio shot, returning a PNG with alpha.
+ * With `withShadow`, a soft elliptical contact shadow is drawn under the product.
+ */
+export const createCutout = async (base64: string, withShadow: boolean): Promise<string> => {
+  const img = await loadImage(`data:image/png;base64,${base64}`);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  const sourceCtx = source.getContext('2d');
+  if (!sourceCtx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  sourceCtx.drawImage(img, 0, 0);
+  const pixels = sourceCtx.getImageData(0, 0, width, height);
+  const alpha = computeAlpha(pixels);
+  for (let i = 0; i < alpha.length; i++) {
+    pixels.data[i * 4 + 3] = alpha[i];
+  }
+  sourceCtx.putImageData(pixels, 0, 0);
+
+  const bounds = withShadow ? getBounds(alpha, width, height) : null;
+  if (!bounds) {
+    return source.toDataURL('image/png').split(',')[1];
+  }
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  const centerX = (bounds.minX + bounds.maxX) / 2;
+  const radiusX = (bounds.maxX - bounds.minX) * SHADOW_WIDTH;
+  const radiusY = Math.max(4, (bounds.maxY - bounds.minY) * SHADOW_HEIGHT);
+  // Scale a circular gradient vertically to get a soft ellipse.
+  ctx.save();
+  ctx.translate(centerX, Math.min(height - radiusY, bounds.maxY));
+  ctx.scale(1, radiusY / radiusX);
+  const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radiusX);
+  gradient.addColorStop(0, `rgba(0, 0, 0, ${SHADOW_OPACITY})`);
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(0, 0, radiusX, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+  ctx.drawImage(source, 0, 0);
+
+  return output.toDataURL('image/png').split(',')[1];
+};
+
+// The image's cutout if it was made from the version currently shown, otherwise undefined
+export const getCurrentCutout = (image: GeneratedImage): ImageCutout | undefined =>
+  image.cutout && image.cutout.sourceVersionId === image.currentVersionId ? image.cutout : undefined;
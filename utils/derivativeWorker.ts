@@ -0,0 +1,33 @@
+import type { DerivativeFile, DerivativeJob, DerivativeJobResult } from './derivatives';
+
+// Dedicated worker: resizes and encodes images with OffscreenCanvas (see createDerivatives).
+const scope = self as unknown as {
+  onmessage: (event: MessageEvent<DerivativeJob>) => void;
+  postMessage: (message: DerivativeJobResult) => void;
+};
+
+scope.onmessage = async (event) => {
+  const { id, png, outputs, quality } = event.data;
+  try {
+    const bitmap = await createImageBitmap(png);
+    const files: DerivativeFile[] = [];
+    for (const output of outputs) {
+      const width = Math.min(output.width, bitmap.width);
+      const canvas = new OffscreenCanvas(width, Math.round(bitmap.height * width / bitmap.width));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('OffscreenCanvas 2D context is not available.');
+      }
+      // JPEG has no alpha, so flatten onto white like the studio background.
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      files.push({ ...output, blob: await canvas.convertToBlob({ type: `image/${output.format}`, quality }) });
+    }
+    bitmap.close();
+    scope.postMessage({ id, files });
+  } catch (err) {
+    scope.postMessage({ id, error: err instanceof Error ? err.message : 'Could not create image derivatives.' });
+  }
+};
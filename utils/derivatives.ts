@@ -0,0 +1,151 @@
+import { GeneratedImage, VariationResult } from '../types';
+import { ImagePaths, getImageFilePath } from './fileUtils';
+import { loadSetting, saveSetting } from './settingsStorage';
+
+const DERIVATIVE_SETTINGS_KEY = 'derivatives';
+
+export type DerivativeFormat = 'jpeg' | 'webp';
+
+// One web-optimized output: format plus target width in pixels (never upscaled)
+export interface DerivativeSpec {
+  format: DerivativeFormat;
+  width: number;
+}
+
+export interface DerivativeSettings {
+  formats: DerivativeFormat[];
+  widths: number[];
+  quality: number; // 0-1, passed to the encoder
+  linkTo: DerivativeSpec | null; // What exported CSV/ZIP links point at; null = the original PNG
+}
+
+export const DEFAULT_DERIVATIVE_SETTINGS: DerivativeSettings = {
+  formats: ['jpeg', 'webp'],
+  widths: [2048, 1200, 600],
+  quality: 0.82,
+  linkTo: null,
+};
+
+export const loadDerivativeSettings = (): DerivativeSettings => ({
+  ...DEFAULT_DERIVATIVE_SETTINGS,
+  ...loadSetting<Partial<DerivativeSettings>>(DERIVATIVE_SETTINGS_KEY, {}),
+});
+
+export const saveDerivativeSettings = (settings: DerivativeSettings): void => {
+  saveSetting(DERIVATIVE_SETTINGS_KEY, settings);
+};
+
+export const DERIVATIVE_FORMAT_LABELS: Record<DerivativeFormat, string> = {
+  jpeg: 'JPEG',
+  webp: 'WebP',
+};
+
+const EXTENSIONS: Record<DerivativeFormat, string> = {
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+export interface DerivativeFile extends DerivativeSpec {
+  blob: Blob;
+}
+
+// Messages exchanged with derivativeWorker.ts
+export interface DerivativeJob {
+  id: number;
+  png: Blob;
+  outputs: DerivativeSpec[];
+  quality: number;
+}
+
+export type DerivativeJobResult = { id: number; files: DerivativeFile[] } | { id: number; error: string };
+
+export const getDerivativeSpecs = (settings: DerivativeSettings): DerivativeSpec[] =>
+  settings.formats.flatMap(format => settings.widths.map(width => ({ format, width })));
+
+export const isSameDerivative = (a: DerivativeSpec | null, b: DerivativeSpec | null): boolean =>
+  a?.format === b?.format && a?.width === b?.width;
+
+export const describeDerivative = (spec: DerivativeSpec): string => `${DERIVATIVE_FORMAT_LABELS[spec.format]} ${spec.width}px`;
+
+// Derivatives sit next to the original, e.g. "beige-velvet/1x1/studio-shot-front-view-1200w.jpg"
+export const getDerivativeFilePath = (paths: ImagePaths, result: VariationResult, image: GeneratedImage, spec: DerivativeSpec): string =>
+  getImageFilePath(paths, result, image).replace(/\.png$/, `-${spec.width}w.${EXTENSIONS[spec.format]}`);
+
+let worker: Worker | null = null;
+// Set once the worker fails to load or crashes; later jobs are encoded on the main thread
+let workerFailed = false;
+let nextJobId = 1;
+const pendingJobs = new Map<number, { resolve: (files: DerivativeFile[]) => void; reject: (err: Error) => void; fallback: () => Promise<DerivativeFile[]> }>();
+
+// Jobs the worker will never answer are re-run on the main thread so the export doesn't hang.
+const handleWorkerFailure = (event: Event) => {
+  console.warn('Derivative worker failed; encoding on the main thread instead.', event);
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  const jobs = [...pendingJobs.values()];
+  pendingJobs.clear();
+  jobs.forEach(job => job.fallback().then(job.resolve, job.reject));
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./derivativeWorker.ts', import.meta.url), { type: 'module' });
+    worker.onerror = handleWorkerFailure;
+    worker.onmessageerror = handleWorkerFailure;
+    worker.onmessage = (event: MessageEvent<DerivativeJobResult>) => {
+      const job = pendingJobs.get(event.data.id);
+      if (!job) return;
+      pendingJobs.delete(event.data.id);
+      if ('error' in event.data) {
+        job.reject(new Error(event.data.error));
+      } else {
+        job.resolve(event.data.files);
+      }
+    };
+  }
+  return worker;
+};
+
+// Fallback for browsers without OffscreenCanvas in workers
+const encodeOnMainThread = async (png: Blob, outputs: DerivativeSpec[], quality: number): Promise<DerivativeFile[]> => {
+  const bitmap = await createImageBitmap(png);
+  const files: DerivativeFile[] = [];
+  for (const output of outputs) {
+    const width = Math.min(output.width, bitmap.width);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round(bitmap.height * width / bitmap.width);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available.');
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, `image/${output.format}`, quality));
+    if (!blob) {
+      throw new Error(`Could not encode ${DERIVATIVE_FORMAT_LABELS[output.format]}.`);
+    }
+    files.push({ ...output, blob });
+  }
+  bitmap.close();
+  return files;
+};
+
+/**
+ * Encodes a PNG into every requested format and width, off the main thread when possible.
+ */
+export const createDerivatives = async (base64: string, outputs: DerivativeSpec[], quality: number): Promise<DerivativeFile[]> => {
+  const png = await (await fetch(`data:image/png;base64,${base64}`)).blob();
+  if (workerFailed || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return encodeOnMainThread(png, outputs, quality);
+  }
+  const id = nextJobId++;
+  return new Promise((resolve, reject) => {
+    pendingJobs.set(id, { resolve, reject, fallback: () => encodeOnMainThread(png, outputs, quality) });
+    const job: DerivativeJob = { id, png, outputs, quality };
+    getWorker().postMessage(job);
+  });
+};
@@ -0,0 +1,208 @@
+import { Dimensions, LengthRange, MeasurementSystem, SpecSheetVariation, VariationResult, Weight } from '../types';
+
+type Axis = keyof Dimensions | 'length' | 'diameter';
+
+const CM_PER_UNIT: Record<string, number> = { mm: 0.1, cm: 1, m: 100, in: 2.54 };
+const KG_PER_UNIT: Record<string, number> = { kg: 1, g: 0.001, lb: 0.45359237, oz: 0.028349523 };
+
+// A number such as 78, 78.5, 78,5 (decimal comma), 30 3/4 or 3/4
+const NUMBER = String.raw`(?:\d+(?:\.\d+|,\d{1,2}(?!\d))?(?:\s+\d+/\d+)?|\d+/\d+)`;
+const LENGTH_UNIT = String.raw`mm|cm|m(?![a-z])|inches|inch|in(?![a-z])|"|″|''`;
+const LENGTH_VALUE = new RegExp(String.raw`(${NUMBER})(?:\s*(?:-|–|~|to)\s*(${NUMBER}))?\s*(${LENGTH_UNIT})?`, 'i');
+const WEIGHT_VALUE = new RegExp(String.raw`(${NUMBER})\s*(kgs?|kilograms?|lbs?|pounds?|g(?![a-z])|grams?|oz)?`, 'i');
+
+const parseNumber = (text: string): number => {
+  const [whole, fraction] = text.trim().split(/\s+/);
+  const toValue = (part: string) => {
+    const [numerator, denominator] = part.split('/');
+    return denominator ? Number(numerator) / Number(denominator) : Number(part.replace(',', '.'));
+  };
+  return toValue(whole) + (fraction ? toValue(fraction) : 0);
+};
+
+const normalizeLengthUnit = (unit: string | undefined): string | undefined => {
+  if (!unit) return undefined;
+  const lower = unit.toLowerCase();
+  return lower.startsWith('in') || ['"', '″', "''"].includes(lower) ? 'in' : lower;
+};
+
+// Axis named by the label words around a value, e.g. "L", "Depth", "Seat height", "Ø"
+const detectAxis = (label: string): Axis | undefined => {
+  const text = label.toLowerCase().replace(/[^a-zø ]/g, ' ').trim();
+  if (!text) return undefined;
+  if (/seat|^sh$/.test(text)) return 'seatHeight';
+  if (/ø|^dia|diameter/.test(text)) return 'diameter';
+  if (/^l$|length|^len\b/.test(text)) return 'length';
+  if (/^w$|width|^wid\b/.test(text)) return 'width';
+  if (/^d$|depth|^dep\b/.test(text)) return 'depth';
+  if (/^h$|height|^ht$|^hgt$/.test(text)) return 'height';
+  return undefined;
+};
+
+interface Segment {
+  axis?: Axis;
+  min: number;
+  max?: number;
+  unit?: string;
+}
+
+const parseSegment = (segment: string): Segment | null => {
+  const match = segment.match(LENGTH_VALUE);
+  if (!match || match.index === undefined) return null;
+  const label = `${segment.slice(0, match.index)} ${segment.slice(match.index + match[0].length)}`;
+  const min = parseNumber(match[1]);
+  const max = match[2] ? parseNumber(match[2]) : undefined;
+  if (!(min > 0)) return null;
+  return { axis: detectAxis(label), min, max: max && max > min ? max : undefined, unit: normalizeLengthUnit(match[3]) };
+};
+
+/**
+ * Reads overall dimensions from spec sheet text. Handles "240*100*78CM", "L 240 x D 100 x H 78",
+ * "94.5\" W x 39\" D x 30\" H", "2400x1000x780 mm", ranges ("H 70-90 cm"), diameters ("Ø120 x H75")
+ * and seat height ("SH 45"). Unlabelled values are read as length/width/height, the usual spec order.
+ * A value without a unit takes the next unit written after it (so "240*100*78CM" is all centimetres),
+ * falling back to the last one before it, then to centimetres. Returns null when nothing is recognised.
+ */
+export const parseDimensions = (text: string | undefined): Dimensions | null => {
+  if (!text || !text.trim()) return null;
+  // Unify the separators between values: "*", "×", a spaced "x" or one right after a value, commas and semicolons.
+  const normalized = text
+    .replace(/[×*]/g, ' | ')
+    .replace(/\s+x\s+/gi, ' | ')
+    .replace(/(\d\s*(?:mm|cm|m|in|"|″)?)x(?=[a-zø\d\s])/gi, '$1 | ')
+    .replace(/[;,](?=\s)|\n/g, ' | ');
+  const segments = normalized.split('|').map(parseSegment).filter((segment): segment is Segment => segment !== null);
+  if (segments.length === 0) return null;
+
+  const units = segments.map((segment, i) =>
+    segment.unit ?? segments.slice(i + 1).find(next => next.unit)?.unit ?? segments.slice(0, i).reverse().find(prev => prev.unit)?.unit ?? 'cm');
+  const toRange = (segment: Segment, unit: string): LengthRange => {
+    const round = (value: number) => Math.round(value * CM_PER_UNIT[unit] * 10) / 10;
+    return segment.max ? { min: round(segment.min), max: round(segment.max) } : { min: round(segment.min) };
+  };
+
+  const labelled = new Map<Axis, LengthRange>();
+  const unlabelled: LengthRange[] = [];
+  segments.forEach((segment, i) => {
+    const range = toRange(segment, units[i]);
+    if (segment.axis && !labelled.has(segment.axis)) labelled.set(segment.axis, range);
+    else unlabelled.push(range);
+  });
+
+  // Spec sheets say "L x W x H" or "W x D x H" for the same thing: L (or W beside L) is side to side.
+  const dimensions: Dimensions = {};
+  const diameter = labelled.get('diameter');
+  const length = labelled.get('length');
+  dimensions.width = diameter ?? length ?? labelled.get('width');
+  dimensions.depth = diameter ?? labelled.get('depth') ?? (length ? labelled.get('width') : undefined);
+  dimensions.height = labelled.get('height');
+  dimensions.seatHeight = labelled.get('seatHeight');
+
+  (['width', 'depth', 'height'] as const).forEach(axis => {
+    if (!dimensions[axis] && unlabelled.length > 0) dimensions[axis] = unlabelled.shift();
+  });
+
+  return Object.fromEntries(Object.entries(dimensions).filter(([, value]) => value)) as Dimensions;
+};
+
+/**
+ * Reads a weight such as "45KG", "99 lbs" or "N.W. 45kg / G.W. 52kg" (the net weight is used).
+ * A number without a unit is taken as kilograms.
+ */
+export const parseWeight = (text: string | undefined): Weight | null => {
+  if (!text || !text.trim()) return null;
+  const netPart = text.split(/g\.?\s?w\.?|gross/i)[0] || text;
+  const match = netPart.match(WEIGHT_VALUE) ?? text.match(WEIGHT_VALUE);
+  if (!match) return null;
+  const value = parseNumber(match[1]);
+  if (!(value > 0)) return null;
+  const unit = (match[2] ?? 'kg').toLowerCase();
+  const key = unit.startsWith('k') ? 'kg' : unit.startsWith('l') || unit.startsWith('p') ? 'lb' : unit === 'oz' ? 'oz' : 'g';
+  return { kg: Math.round(value * KG_PER_UNIT[key] * 100) / 100 };
+};
+
+// Inches rounded to the nearest 1/8, e.g. 30 3/4"
+const toFractionalInch = (cm: number): string => {
+  const inches = cm / 2.54;
+  let whole = Math.floor(inches);
+  let eighths = Math.round((inches - whole) * 8);
+  if (eighths === 8) {
+    whole += 1;
+    eighths = 0;
+  }
+  if (eighths === 0) return `${whole}"`;
+  const divisor = eighths % 4 === 0 ? 4 : eighths % 2 === 0 ? 2 : 1;
+  return `${whole} ${eighths / divisor}/${8 / divisor}"`;
+};
+
+const formatCm = (cm: number): string => `${Number.isInteger(cm) ? cm : cm.toFixed(1)}cm`;
+
+export const formatLength = (range: LengthRange, system: MeasurementSystem): string => {
+  const format = system === 'metric' ? formatCm : toFractionalInch;
+  return range.max ? `${format(range.min)}-${format(range.max)}` : format(range.min);
+};
+
+const AXIS_LABELS: Record<keyof Dimensions, string> = {
+  width: 'width',
+  depth: 'depth',
+  height: 'height',
+  seatHeight: 'seat height',
+};
+
+const AXIS_LETTERS: Record<keyof Dimensions, string> = {
+  width: 'W',
+  depth: 'D',
+  height: 'H',
+  seatHeight: 'SH',
+};
+
+const presentAxes = (dimensions: Dimensions) =>
+  (Object.keys(AXIS_LABELS) as (keyof Dimensions)[]).filter(axis => dimensions[axis]);
+
+// Compact form in one system, e.g. "W 240cm x D 100cm x H 78cm x SH 45cm"
+export const formatDimensionsCompact = (dimensions: Dimensions, system: MeasurementSystem): string =>
+  presentAxes(dimensions).map(axis => `${AXIS_LETTERS[axis]} ${formatLength(dimensions[axis]!, system)}`).join(' x ');
+
+// Metric with imperial alongside, e.g. `240cm (94 1/2") width x 100cm (39 3/8") depth x 78cm (30 3/4") height`
+export const formatDimensionsBoth = (dimensions: Dimensions): string =>
+  presentAxes(dimensions)
+    .map(axis => `${formatLength(dimensions[axis]!, 'metric')} (${formatLength(dimensions[axis]!, 'imperial')}) ${AXIS_LABELS[axis]}`)
+    .join(' x ');
+
+export const formatWeight = (weight: Weight, system: MeasurementSystem): string =>
+  system === 'metric'
+    ? `${weight.kg} kg`
+    : `${Math.round(weight.kg / KG_PER_UNIT.lb * 10) / 10} lb`;
+
+export const toGrams = (weight: Weight): number => Math.round(weight.kg * 1000);
+
+// Largest extent of a range, used where a single number is required (shipping dimensions)
+export const getMaxLength = (range: LengthRange | undefined): number | undefined => range && (range.max ?? range.min);
+
+// The variation's "Dimensions" attribute, whatever its capitalisation
+export const getDimensionsAttribute = (attributes: Record<string, string>): string => {
+  const key = Object.keys(attributes).find(k => k.toLowerCase() === 'dimensions');
+  return key ? attributes[key] : '';
+};
+
+/**
+ * Builds a spec sheet variation with its parsed measurements. Seat height and weight are often
+ * listed apart from the overall size, so they can be passed as separate text.
+ */
+export const readSpecSheetVariation = (attributes: Record<string, string>, weightText?: string, seatHeightText?: string): SpecSheetVariation => {
+  const dimensions = parseDimensions(getDimensionsAttribute(attributes)) ?? {};
+  if (!dimensions.seatHeight && seatHeightText?.trim()) {
+    const seatHeight = parseDimensions(`SH ${seatHeightText}`)?.seatHeight;
+    if (seatHeight) dimensions.seatHeight = seatHeight;
+  }
+  const weight = parseWeight(weightText);
+  return {
+    attributes,
+    ...(Object.keys(dimensions).length > 0 ? { dimensions } : {}),
+    ...(weight ? { weight } : {}),
+  };
+};
+
+// Projects saved before measurements were stored fall back to reading the Dimensions attribute.
+export const getVariationDimensions = (result: VariationResult): Dimensions | null =>
+  result.dimensions ?? parseDimensions(getDimensionsAttribute(result.variation));
@@ -0,0 +1,113 @@
+import { GeneratedContent } from '../../types';
+import { getMaxLength, getVariationDimensions } from '../dimensions';
+import { CsvTable, getExportDetails, getOptionNames, getPlainPrice, getProductHandle, getProductImages, getSkuPrefix, getVariantImageUrl, getVariantPrice, getVariantSku } from './csv';
+import { ExportOptions, ProductExporter } from './types';
+
+// BigCommerce's product import: a "Product" row, its "Variant" rows, then one "Image" row per image.
+const HEADERS = [
+  "Item",
+  "Name",
+  "Type",
+  "Brand Name",
+  "SKU",
+  "Options",
+  "Inventory Tracking",
+  "Current Stock",
+  "Price",
+  "Sale Price",
+  "Weight",
+  "Width",
+  "Height",
+  "Depth",
+  "Categories",
+  "Description",
+  "Page Title",
+  "Meta Description",
+  "Search Keywords",
+  "Product URL",
+  "Is Visible",
+  "Variant Image URL",
+  "Image URL (Import)",
+  "Image Description",
+  "Image is Thumbnail",
+  "Image Sort Order",
+];
+
+const formatSize = (cm: number | undefined): string => cm === undefined ? "" : String(cm);
+
+// ";", "|" and "=" separate parts of the Options cell, so they can't appear inside names or values.
+const cleanOptionPart = (value: string) => value.replace(/[;|=]/g, ' ').trim();
+
+const formatOptions = (variation: Record<string, string>, optionNames: string[]): string =>
+  optionNames
+    .filter(name => variation[name])
+    .map(name => `Type=Rectangle List|Name=${cleanOptionPart(name)}|Value=${cleanOptionPart(variation[name])}`)
+    .join(';');
+
+export const buildBigCommerceTable = (content: GeneratedContent, options: ExportOptions = {}): CsvTable => {
+  const { variationResults, furnitureCategory } = content;
+  const details = getExportDetails(content, options);
+  const optionNames = getOptionNames(variationResults);
+  const skuPrefix = getSkuPrefix(content);
+  const variantPrices = variationResults.map(result => getVariantPrice(content, result, options));
+  // The product's own price is the lowest variant price, the "from" price shown in listings
+  const fromPrice = variantPrices.length > 0
+    ? Math.min(...variantPrices.map(({ price }) => Number(price))).toFixed(2)
+    : getPlainPrice(details.suggestedPrice);
+
+  const row = (values: Partial<Record<string, string>>) => HEADERS.map(header => values[header] ?? "");
+
+  const rows: string[][] = [
+    row({
+      "Item": "Product",
+      "Name": details.names[0],
+      "Type": "physical",
+      "Brand Name": options.vendor ?? "",
+      "SKU": skuPrefix,
+      "Inventory Tracking": "variant",
+      "Price": fromPrice,
+      "Categories": furnitureCategory || "Furniture",
+      "Description": details.description.split(/\n+/).map(paragraph => `<p>${paragraph}</p>`).join(''),
+      "Page Title": details.seoTitle,
+      "Meta Description": details.seoDescription,
+      "Search Keywords": details.tags.join(', '),
+      "Product URL": `/${getProductHandle(content)}/`,
+      "Is Visible": "TRUE",
+    }),
+    // Weight and size are in the store's units; kilograms and centimetres are assumed.
+    ...variationResults.map((result, index) => {
+      const dimensions = getVariationDimensions(result);
+      const { price, compareAtPrice } = variantPrices[index];
+      return row({
+        "Item": "Variant",
+        "SKU": getVariantSku(skuPrefix, index),
+        "Options": formatOptions(result.variation, optionNames),
+        "Current Stock": "10",
+        // A compare-at price is the regular price, with the variant's own price as the sale price
+        "Price": compareAtPrice || price,
+        "Sale Price": compareAtPrice ? price : "",
+        "Weight": result.weight ? String(result.weight.kg) : "",
+        "Width": formatSize(getMaxLength(dimensions?.width)),
+        "Height": formatSize(getMaxLength(dimensions?.height)),
+        "Depth": formatSize(getMaxLength(dimensions?.depth)),
+        "Variant Image URL": getVariantImageUrl(content, result, options),
+      });
+    }),
+    ...getProductImages(content, options).map((image, index) => row({
+      "Item": "Image",
+      "Image URL (Import)": image.url,
+      "Image Description": image.alt,
+      "Image is Thumbnail": index === 0 ? "TRUE" : "FALSE",
+      "Image Sort Order": String(index),
+    })),
+  ];
+
+  return { headers: HEADERS, rows };
+};
+
+export const bigCommerceExporter: ProductExporter = {
+  format: 'bigcommerce',
+  label: 'BigCommerce',
+  fileSuffix: 'bigcommerce_import',
+  buildTable: buildBigCommerceTable,
+};
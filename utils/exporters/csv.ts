@@ -0,0 +1,154 @@
+import { GeneratedContent, GeneratedImage, ProductDetails, VariationResult } from '../../types';
+import { DerivativeSpec, getDerivativeFilePath } from '../derivatives';
+import { ImagePaths, buildImagePaths, getImageFilePath } from '../fileUtils';
+import { getCurrentAltText } from '../imageVersions';
+import { SOURCE_LOCALE, getLocalizedDetails, parsePrice } from '../locales';
+import { priceVariation } from '../pricing';
+import { ExportOptions } from './types';
+
+// Quotes a value when it contains a quote, comma or newline
+export const escapeCsvValue = (value: string): string => {
+  if (!value) return '';
+  const stringValue = String(value);
+  if (stringValue.includes('"') || stringValue.includes(',') || stringValue.includes('\n')) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+  return stringValue;
+};
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export const toCsv = ({ headers, rows }: CsvTable): string => [
+  headers.map(escapeCsvValue).join(','),
+  ...rows.map(row => row.map(escapeCsvValue).join(',')),
+].join('\n');
+
+/**
+ * Stacks several products' tables into one. Headers are merged by name in first-seen order,
+ * so products with more attributes simply add columns the others leave blank.
+ */
+export const mergeCsvTables = (tables: CsvTable[]): CsvTable => {
+  const headers = [...new Set(tables.flatMap(table => table.headers))];
+  const rows = tables.flatMap(table => table.rows.map(row => {
+    const values = new Map(table.headers.map((header, i) => [header, row[i] ?? '']));
+    return headers.map(header => values.get(header) ?? '');
+  }));
+  return { headers, rows };
+};
+
+export const downloadCsv = (csv: string, fileName: string): void => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Copy for the export's market. The handle and SKUs stay on the source copy so every market's file matches the same product.
+export const getExportDetails = (content: GeneratedContent, options: ExportOptions): ProductDetails =>
+  getLocalizedDetails(content, options.locale);
+
+// Variation copy and image alt text are only written in the source language, so other markets leave them out.
+export const isSourceExport = (options: ExportOptions): boolean => (options.locale ?? SOURCE_LOCALE) === SOURCE_LOCALE;
+
+// URL-safe product slug from the first product name
+export const getProductHandle = (content: GeneratedContent): string =>
+  (content.baseDetails.names[0] || content.specSheet.productName || 'product')
+    .toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// SKUs are based on the spec sheet model number when there is one
+export const getSkuPrefix = (content: GeneratedContent): string => {
+  const modelNo = content.specSheet?.modelNo?.trim();
+  return modelNo && modelNo.toUpperCase() !== 'N/A'
+    ? modelNo.toUpperCase().replace(/[^A-Z0-9-]+/g, '-')
+    : getProductHandle(content);
+};
+
+export const getVariantSku = (skuPrefix: string, index: number): string => `${skuPrefix}-${String(index + 1).padStart(2, '0')}`;
+
+// Option names come from the first variation's attributes, in order
+export const getOptionNames = (variationResults: VariationResult[], max = Infinity): string[] =>
+  variationResults.length > 0 ? Object.keys(variationResults[0].variation).slice(0, max) : [];
+
+// Plain number for price columns, whatever the market's currency format
+export const getPlainPrice = (price: string): string => {
+  const value = price ? parsePrice(price) : null;
+  return value === null ? '0.00' : value.toFixed(2);
+};
+
+export interface VariantPriceCells {
+  price: string;
+  compareAtPrice: string;
+}
+
+// The variant's own price in the export's market, as plain numbers; blank compare-at when there is none
+export const getVariantPrice = (content: GeneratedContent, result: VariationResult, options: ExportOptions): VariantPriceCells => {
+  const prices = priceVariation(content, result, options.locale, options.exchangeRates);
+  return {
+    price: prices ? prices.price.toFixed(2) : getPlainPrice(getExportDetails(content, options).suggestedPrice),
+    compareAtPrice: prices?.compareAtPrice !== undefined ? prices.compareAtPrice.toFixed(2) : '',
+  };
+};
+
+export const getVariationLabel = (variation: Record<string, string>): string =>
+  Object.entries(variation)
+    .filter(([key]) => key.toLowerCase() !== 'dimensions')
+    .map(([, value]) => value)
+    .join(' ');
+
+export const getExportImagePaths = (content: GeneratedContent, options: ExportOptions): ImagePaths =>
+  options.imagePaths ?? buildImagePaths(content.variationResults);
+
+// Hosted URL of an exported image (or its derivative); the path matches the file's location in the ZIP.
+export const getHostedImageUrl = (imageBaseUrl: string, paths: ImagePaths, result: VariationResult, image: GeneratedImage, derivative?: DerivativeSpec | null): string => {
+  const file = derivative ? getDerivativeFilePath(paths, result, image, derivative) : getImageFilePath(paths, result, image);
+  const path = file.split('/').map(encodeURIComponent).join('/');
+  return `${imageBaseUrl.trim().replace(/\/+$/, '')}/${path}`;
+};
+
+export interface HostedImage {
+  url: string;
+  alt: string;
+}
+
+/**
+ * Every finished image as a hosted URL, studio shots first so the featured image is a clean packshot.
+ * Empty without a base URL, since platforms can't import the base64 images directly.
+ */
+export const getProductImages = (content: GeneratedContent, options: ExportOptions): HostedImage[] => {
+  const baseUrl = options.imageBaseUrl?.trim();
+  if (!baseUrl) return [];
+  const title = getExportDetails(content, options).names[0];
+  const paths = getExportImagePaths(content, options);
+  const images: HostedImage[] = [];
+  (['studio', 'lifestyle'] as const).forEach(category => {
+    content.variationResults.forEach(result => {
+      result.images
+        .filter(image => image.base64 && image.category === category)
+        .forEach(image => {
+          const url = getHostedImageUrl(baseUrl, paths, result, image, options.imageDerivative);
+          // Images without alt text for their current version, or in another market, get a label built from the titles
+          const alt = (isSourceExport(options) && getCurrentAltText(image)) || `${title} ${getVariationLabel(result.variation)} - ${image.title}`;
+          images.push({ url, alt });
+        });
+    });
+  });
+  return images;
+};
+
+// Each variant shows its own studio shot, preferring the square one used on product pages.
+export const getVariantImageUrl = (content: GeneratedContent, result: VariationResult, options: ExportOptions): string => {
+  const baseUrl = options.imageBaseUrl?.trim();
+  if (!baseUrl) return '';
+  const studioImages = result.images.filter(image => image.base64 && image.category === 'studio');
+  const variantImage = studioImages.find(image => image.sourceAspectRatio === '1:1') || studioImages[0];
+  return variantImage ? getHostedImageUrl(baseUrl, getExportImagePaths(content, options), result, variantImage, options.imageDerivative) : '';
+};
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedContent, GeneratedImage, VariationResult } from '../../types';
+import { buildBigCommerceTable } from './bigCommerceExporter';
+import { CsvTable } from './csv';
+import { buildShopifyTable } from './shopifyExporter';
+import { ExportOptions } from './types';
+import { buildWooCommerceTable } from './wooCommerceExporter';
+
+const BASE_URL = 'https://cdn.example.com/sofa';
+
+const image = (id: string, overrides: Partial<GeneratedImage>): GeneratedImage => ({
+  id,
+  title: 'Studio Shot',
+  description: '',
+  base64: 'iVBORw0KGgo=',
+  sourcePrompt: '',
+  sourceAspectRatio: '1:1',
+  category: 'studio',
+  versions: [],
+  currentVersionId: `${id}-v1`,
+  status: 'done',
+  ...overrides,
+});
+
+const beige: VariationResult = {
+  id: 'beige',
+  variation: { Color: 'Beige', Size: 'Three seats' },
+  weight: { kg: 42 },
+  dimensions: { width: { min: 210 }, depth: { min: 95 }, height: { min: 80 } },
+  copy: { blurb: 'Warm beige velvet.', seoTitle: 'Beige Sofa' },
+  images: [
+    image('beige-studio', { altText: { text: 'Beige sofa, front view', versionId: 'beige-studio-v1' } }),
+    image('beige-living', { title: 'Living Room', category: 'lifestyle', sourceAspectRatio: '16:9' }),
+  ],
+};
+
+const grey: VariationResult = {
+  id: 'grey',
+  variation: { Color: 'Grey', Size: 'Three seats' },
+  images: [image('grey-studio', {})],
+};
+
+const content: GeneratedContent = {
+  baseDetails: {
+    names: ['Oslo Sofa'],
+    description: 'A deep sofa.\nSeats three.',
+    tags: ['sofa', 'velvet'],
+    seoTitle: 'Oslo Velvet Sofa',
+    seoDescription: 'Deep three-seat velvet sofa.',
+    socialMediaCaption: '',
+    measurements: '',
+    shipping: '',
+    careInstructions: '',
+    suggestedPrice: '$1,299.00',
+  },
+  pricing: {
+    basis: 'suggested',
+    markupPercent: 150,
+    rules: [{ id: 'grey', attribute: 'Color', value: 'grey', kind: 'amount', amount: 100 }],
+    compareAtPercent: 20,
+    rounding: '.99',
+  },
+  variationResults: [beige, grey],
+  furnitureCategory: 'Sofas',
+  specSheet: { productName: 'Oslo', modelNo: 'os-200', variations: [] },
+};
+
+const options: ExportOptions = { imageBaseUrl: BASE_URL, vendor: 'Nordhaus' };
+
+// Rows as header -> value records, so assertions don't depend on column positions
+const records = ({ headers, rows }: CsvTable) =>
+  rows.map(row => Object.fromEntries(headers.map((header, i) => [header, row[i]])));
+
+describe('buildShopifyTable', () => {
+  const rows = records(buildShopifyTable(content, options));
+
+  it('writes one row per variant followed by the images that did not fit', () => {
+    expect(rows).toHaveLength(3);
+    expect(rows.map(row => row['Handle'])).toEqual(['oslo-sofa', 'oslo-sofa', 'oslo-sofa']);
+    expect(rows.map(row => row['Variant SKU'])).toEqual(['OS-200-01', 'OS-200-02', '']);
+  });
+
+  it('fills the variant options, prices and vendor', () => {
+    expect(rows[0]).toMatchObject({
+      'Title': 'Oslo Sofa',
+      'Body (HTML)': 'A deep sofa.<br>Seats three.',
+      'Vendor': 'Nordhaus',
+      'Option1 Name': 'Color',
+      'Option1 Value': 'Beige',
+      'Option2 Name': 'Size',
+      'Option2 Value': 'Three seats',
+      'Variant Grams': '42000',
+      'Variant Price': '1299.99',
+      'Variant Compare At Price': '1558.99',
+    });
+    expect(rows[1]).toMatchObject({ 'Option1 Value': 'Grey', 'Variant Price': '1399.99', 'Vendor': 'Nordhaus' });
+  });
+
+  it('spreads the images over the rows, studio shots first', () => {
+    expect(rows.map(row => row['Image Src'])).toEqual([
+      `${BASE_URL}/beige-three-seats/1x1/studio-shot.png`,
+      `${BASE_URL}/grey-three-seats/1x1/studio-shot.png`,
+      `${BASE_URL}/beige-three-seats/16x9/living-room.png`,
+    ]);
+    expect(rows.map(row => row['Image Position'])).toEqual(['1', '2', '3']);
+    expect(rows[0]['Image Alt Text']).toBe('Beige sofa, front view');
+    expect(rows[2]['Image Alt Text']).toBe('Oslo Sofa Beige Three seats - Living Room');
+    expect(rows[1]['Variant Image']).toBe(`${BASE_URL}/grey-three-seats/1x1/studio-shot.png`);
+  });
+
+  it('leaves the image columns blank without a base URL', () => {
+    const plain = records(buildShopifyTable(content, { vendor: 'Nordhaus' }));
+    expect(plain).toHaveLength(2);
+    expect(plain.every(row => row['Image Src'] === '' && row['Variant Image'] === '')).toBe(true);
+  });
+});
+
+describe('buildWooCommerceTable', () => {
+  const table = buildWooCommerceTable(content, options);
+  const [parent, ...variations] = records(table);
+
+  it('writes a variable parent row listing every attribute value', () => {
+    expect(parent).toMatchObject({
+      'Type': 'variable',
+      'SKU': 'OS-200',
+      'Name': 'Oslo Sofa',
+      'Parent': '',
+      'Regular price': '',
+      'Categories': 'Sofas',
+      'Tags': 'sofa, velvet',
+      'Brands': 'Nordhaus',
+      'Attribute 1 name': 'Color',
+      'Attribute 1 value(s)': 'Beige, Grey',
+      'Attribute 2 name': 'Size',
+      'Attribute 2 value(s)': 'Three seats',
+    });
+    expect(parent['Images'].split(', ')).toHaveLength(3);
+  });
+
+  it('writes a variation row per variant under the parent SKU', () => {
+    expect(variations).toHaveLength(2);
+    expect(variations[0]).toMatchObject({
+      'Type': 'variation',
+      'SKU': 'OS-200-01',
+      'Name': 'Oslo Sofa - Beige Three seats',
+      'Parent': 'OS-200',
+      'Description': 'Warm beige velvet.',
+      'Regular price': '1558.99',
+      'Sale price': '1299.99',
+      'Weight (kg)': '42',
+      'Length (cm)': '210',
+      'Width (cm)': '95',
+      'Height (cm)': '80',
+      'Brands': '',
+      'Images': `${BASE_URL}/beige-three-seats/1x1/studio-shot.png`,
+      'Attribute 1 value(s)': 'Beige',
+    });
+    expect(variations[1]).toMatchObject({ 'Description': '', 'Weight (kg)': '', 'Attribute 1 value(s)': 'Grey' });
+  });
+});
+
+describe('buildBigCommerceTable', () => {
+  const rows = records(buildBigCommerceTable(content, options));
+
+  it('writes the product, then its variants, then its images', () => {
+    expect(rows.map(row => row['Item'])).toEqual(['Product', 'Variant', 'Variant', 'Image', 'Image', 'Image']);
+  });
+
+  it('puts the brand and the lowest variant price on the product row', () => {
+    expect(rows[0]).toMatchObject({
+      'Name': 'Oslo Sofa',
+      'Type': 'physical',
+      'Brand Name': 'Nordhaus',
+      'SKU': 'OS-200',
+      'Price': '1299.99',
+      'Description': '<p>A deep sofa.</p><p>Seats three.</p>',
+      'Product URL': '/oslo-sofa/',
+    });
+  });
+
+  it('writes each variant with its options and prices', () => {
+    expect(rows[1]).toMatchObject({
+      'SKU': 'OS-200-01',
+      'Options': 'Type=Rectangle List|Name=Color|Value=Beige;Type=Rectangle List|Name=Size|Value=Three seats',
+      'Brand Name': '',
+      'Price': '1558.99',
+      'Sale Price': '1299.99',
+      'Variant Image URL': `${BASE_URL}/beige-three-seats/1x1/studio-shot.png`,
+    });
+    expect(rows[2]).toMatchObject({ 'SKU': 'OS-200-02', 'Price': '1678.99', 'Sale Price': '1399.99' });
+  });
+
+  it('marks the first image as the thumbnail', () => {
+    expect(rows.slice(3).map(row => [row['Image is Thumbnail'], row['Image Sort Order']])).toEqual([
+      ['TRUE', '0'],
+      ['FALSE', '1'],
+      ['FALSE', '2'],
+    ]);
+    expect(rows[3]['Image Description']).toBe('Beige sofa, front view');
+  });
+});
@@ -0,0 +1,44 @@
+import { GeneratedContent, Locale } from '../../types';
+import { SOURCE_LOCALE } from '../locales';
+import { loadSetting, saveSetting } from '../settingsStorage';
+import { bigCommerceExporter } from './bigCommerceExporter';
+import { downloadCsv, getProductHandle, mergeCsvTables, toCsv } from './csv';
+import { shopifyExporter } from './shopifyExporter';
+import { ExportFormat, ExportOptions, ProductExporter } from './types';
+import { wooCommerceExporter } from './wooCommerceExporter';
+
+export type { ExportFormat, ExportOptions, ProductExporter } from './types';
+
+export const EXPORTERS: Record<ExportFormat, ProductExporter> = {
+  shopify: shopifyExporter,
+  woocommerce: wooCommerceExporter,
+  bigcommerce: bigCommerceExporter,
+};
+
+const EXPORT_FORMAT_SETTING = 'exportFormat';
+
+// Last platform picked, shared by the results screen and batch mode. Unknown stored values fall back to Shopify.
+export const loadExportFormat = (): ExportFormat => {
+  const stored = loadSetting<string>(EXPORT_FORMAT_SETTING, 'shopify');
+  return Object.keys(EXPORTERS).includes(stored) ? stored as ExportFormat : 'shopify';
+};
+
+export const saveExportFormat = (format: ExportFormat): void => {
+  saveSetting(EXPORT_FORMAT_SETTING, format);
+};
+
+export const buildProductCsv = (format: ExportFormat, content: GeneratedContent, options: ExportOptions = {}): string =>
+  toCsv(EXPORTERS[format].buildTable(content, options));
+
+// One import file covering several products; options are per product (e.g. each has its own image folder).
+export const buildCombinedCsv = (format: ExportFormat, products: { content: GeneratedContent; options: ExportOptions }[]): string =>
+  toCsv(mergeCsvTables(products.map(({ content, options }) => EXPORTERS[format].buildTable(content, options))));
+
+// e.g. "my-sofa-shopify_import.csv"; other markets get their own file, "my-sofa-shopify_import-de-DE.csv"
+export const getCsvFileName = (format: ExportFormat, content: GeneratedContent, locale: Locale = SOURCE_LOCALE): string =>
+  `${getProductHandle(content)}-${EXPORTERS[format].fileSuffix}${locale === SOURCE_LOCALE ? '' : `-${locale}`}.csv`;
+
+// Builds the CSV for the chosen platform and downloads it.
+export const exportProductCsv = (format: ExportFormat, content: GeneratedContent, options: ExportOptions = {}): void => {
+  downloadCsv(buildProductCsv(format, content, options), getCsvFileName(format, content, options.locale));
+};
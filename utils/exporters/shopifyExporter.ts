@@ -0,0 +1,129 @@
+import { GeneratedContent } from '../../types';
+import { formatDimensionsBoth, getVariationDimensions, toGrams } from '../dimensions';
+import { getAspectRatioFolder, getImageFilePath } from '../fileUtils';
+import { ASPECT_RATIOS } from '../imageUtils';
+import { CsvTable, getExportDetails, getExportImagePaths, getOptionNames, getProductHandle, getProductImages, getSkuPrefix, getVariantImageUrl, getVariantPrice, getVariantSku } from './csv';
+import { ExportOptions, ProductExporter } from './types';
+
+const HEADERS = [
+  "Handle",
+  "Title",
+  "Body (HTML)",
+  "Vendor",
+  "Standard Product Type",
+  "Tags",
+  "Published",
+  "Option1 Name",
+  "Option1 Value",
+  "Option2 Name",
+  "Option2 Value",
+  "Option3 Name",
+  "Option3 Value",
+  "Variant SKU",
+  "Variant Grams",
+  "Variant Inventory Tracker",
+  "Variant Inventory Qty",
+  "Variant Price",
+  "Variant Compare At Price",
+  "Requires Shipping",
+  "Taxable",
+  "Barcode",
+  "Image Src",
+  "Image Position",
+  "Image Alt Text",
+  "Variant Image",
+  "SEO Title",
+  "SEO Description",
+  "Variant Metafield: custom.dimensions [single_line_text_field]",
+  // One column per aspect ratio listing that variant's exported image files
+  ...ASPECT_RATIOS.map(ratio => `Variant Metafield: custom.images_${getAspectRatioFolder(ratio)} [single_line_text_field]`)
+];
+
+export const buildShopifyTable = (content: GeneratedContent, options: ExportOptions = {}): CsvTable => {
+  const { variationResults, furnitureCategory } = content;
+  const details = getExportDetails(content, options);
+
+  // Shopify supports up to 3 options.
+  const optionNames = getOptionNames(variationResults, 3);
+
+  const handle = getProductHandle(content);
+  const title = details.names[0];
+  // Convert newlines to HTML breaks for Shopify Body
+  const bodyHtml = details.description.replace(/\n/g, '<br>');
+  const vendor = options.vendor ?? "";
+  const type = furnitureCategory || "Furniture";
+  const tags = details.tags.join(', ');
+  const published = "TRUE";
+  const skuPrefix = getSkuPrefix(content);
+  const productImages = getProductImages(content, options);
+  const imagePaths = getExportImagePaths(content, options);
+
+  const rows: string[][] = [];
+
+  // We generate a row for each variation
+  variationResults.forEach((result, index) => {
+    const variation = result.variation;
+    const optionValue = (i: number) => optionNames.length > i ? variation[optionNames[i]] : "";
+
+    // Images are spread over the rows in position order, variant rows first (Shopify's own export layout).
+    // Without an image base URL we can't reference the base64 images, so these stay blank.
+    const productImage = productImages[index];
+    const dimensions = getVariationDimensions(result);
+    const { price, compareAtPrice } = getVariantPrice(content, result, options);
+
+    rows.push([
+        handle,
+        title,
+        bodyHtml,
+        vendor,
+        type,
+        tags,
+        published,
+        optionNames[0] ?? "",
+        optionValue(0),
+        optionNames[1] ?? "",
+        optionValue(1),
+        optionNames[2] ?? "",
+        optionValue(2),
+        getVariantSku(skuPrefix, index),
+        result.weight ? String(toGrams(result.weight)) : "", // Grams, blank when the spec sheet lists no weight
+        "shopify", // Inventory tracker
+        "10", // Inventory Qty
+        price,
+        compareAtPrice,
+        "TRUE", // Requires shipping
+        "TRUE", // Taxable
+        "", // Barcode
+        productImage ? productImage.url : "", // Image Src
+        productImage ? String(index + 1) : "", // Image Position
+        productImage ? productImage.alt : "", // Image Alt Text
+        getVariantImageUrl(content, result, options), // Variant Image
+        details.seoTitle,
+        details.seoDescription,
+        dimensions ? formatDimensionsBoth(dimensions) : "", // Metafield Value
+        ...ASPECT_RATIOS.map(ratio => result.images
+            .filter(image => image.base64 && image.sourceAspectRatio === ratio)
+            .map(image => getImageFilePath(imagePaths, result, image))
+            .join('; '))
+    ]);
+  });
+
+  // Image-only rows for the images that didn't fit on a variant row
+  productImages.slice(variationResults.length).forEach((image, i) => {
+    const row = HEADERS.map(() => "");
+    row[HEADERS.indexOf("Handle")] = handle;
+    row[HEADERS.indexOf("Image Src")] = image.url;
+    row[HEADERS.indexOf("Image Position")] = String(variationResults.length + i + 1);
+    row[HEADERS.indexOf("Image Alt Text")] = image.alt;
+    rows.push(row);
+  });
+
+  return { headers: HEADERS, rows };
+};
+
+export const shopifyExporter: ProductExporter = {
+  format: 'shopify',
+  label: 'Shopify',
+  fileSuffix: 'shopify_import',
+  buildTable: buildShopifyTable,
+};
@@ -0,0 +1,30 @@
+import { GeneratedContent, Locale } from '../../types';
+import { DerivativeSpec } from '../derivatives';
+import { ImagePaths } from '../fileUtils';
+import { CsvTable } from './csv';
+
+export type ExportFormat = 'shopify' | 'woocommerce' | 'bigcommerce';
+
+export interface ExportOptions {
+  // Public URL of the folder the image ZIP was uploaded to (CDN or bucket path)
+  imageBaseUrl?: string;
+  // Link to this web-optimized derivative instead of the original PNG
+  imageDerivative?: DerivativeSpec | null;
+  // Market whose translated copy and currency are used; defaults to the source copy
+  locale?: Locale;
+  // Units of each market's currency per source-currency unit, for variant prices
+  exchangeRates?: Partial<Record<Locale, number>>;
+  // Vendor / brand name from the project's brand profile
+  vendor?: string;
+  // File paths the ZIP was written with; built from the content when not given
+  imagePaths?: ImagePaths;
+}
+
+export interface ProductExporter {
+  readonly format: ExportFormat;
+  readonly label: string;
+  // Suffix of the downloaded file name, e.g. "shopify_import" -> "my-sofa-shopify_import.csv"
+  readonly fileSuffix: string;
+  // Pure: builds the header and rows; see buildProductCsv for the file contents
+  buildTable: (content: GeneratedContent, options: ExportOptions) => CsvTable;
+}
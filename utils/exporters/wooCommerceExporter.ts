@@ -0,0 +1,124 @@
+import { GeneratedContent } from '../../types';
+import { getMaxLength, getVariationDimensions } from '../dimensions';
+import { CsvTable, getExportDetails, getOptionNames, getProductImages, getSkuPrefix, getVariantImageUrl, getVariantPrice, getVariantSku, getVariationLabel, isSourceExport } from './csv';
+import { ExportOptions, ProductExporter } from './types';
+
+// WooCommerce's built-in importer: one "variable" parent row followed by one "variation" row per variant.
+const BASE_HEADERS = [
+  "Type",
+  "SKU",
+  "Name",
+  "Parent",
+  "Published",
+  "Is featured?",
+  "Visibility in catalog",
+  "Short description",
+  "Description",
+  "Tax status",
+  "In stock?",
+  "Stock",
+  "Sale price",
+  "Regular price",
+  "Weight (kg)",
+  "Length (cm)",
+  "Width (cm)",
+  "Height (cm)",
+  "Categories",
+  "Tags",
+  "Brands",
+  "Images",
+];
+
+const attributeHeaders = (position: number) => [
+  `Attribute ${position} name`,
+  `Attribute ${position} value(s)`,
+  `Attribute ${position} visible`,
+  `Attribute ${position} global`,
+];
+
+// List cells are comma-separated, so commas inside a value are escaped with a backslash.
+const escapeListValue = (value: string) => value.replace(/,/g, '\\,');
+
+export const buildWooCommerceTable = (content: GeneratedContent, options: ExportOptions = {}): CsvTable => {
+  const { variationResults, furnitureCategory } = content;
+  const details = getExportDetails(content, options);
+  const attributeNames = getOptionNames(variationResults);
+  const headers = [...BASE_HEADERS, ...attributeNames.flatMap((_, i) => attributeHeaders(i + 1))];
+
+  const title = details.names[0];
+  const skuPrefix = getSkuPrefix(content);
+  const category = furnitureCategory || "Furniture";
+  const tags = details.tags.map(escapeListValue).join(', ');
+
+  const parentRow = [
+    "variable",
+    skuPrefix,
+    title,
+    "", // Parent
+    "1",
+    "0",
+    "visible",
+    details.seoDescription,
+    details.description,
+    "taxable",
+    "1",
+    "", // Stock is tracked per variation
+    "", // Prices are set per variation
+    "",
+    "", // Weight and size are set per variation
+    "",
+    "",
+    "",
+    category,
+    tags,
+    options.vendor ?? "",
+    getProductImages(content, options).map(image => image.url).join(', '),
+    // The parent lists every value of each attribute, used for variations
+    ...attributeNames.flatMap(name => {
+      const values = [...new Set(variationResults.map(result => result.variation[name]).filter(Boolean))];
+      return [name, values.map(escapeListValue).join(', '), "1", "0"];
+    }),
+  ];
+
+  // A compare-at price becomes the regular price, with the variation's own price as the sale price.
+  // WooCommerce's length is the longest side, so it gets our width (side to side) and its width our depth.
+  const variationRows = variationResults.map((result, index) => {
+    const dimensions = getVariationDimensions(result);
+    const size = (cm: number | undefined) => cm === undefined ? "" : String(cm);
+    const { price, compareAtPrice } = getVariantPrice(content, result, options);
+    return [
+      "variation",
+      getVariantSku(skuPrefix, index),
+      `${title} - ${getVariationLabel(result.variation)}`,
+      skuPrefix,
+      "1",
+      "0",
+      "visible",
+      "",
+      isSourceExport(options) ? result.copy?.blurb ?? "" : "", // Shown when the variation is selected
+      "taxable",
+      "1",
+      "10",
+      compareAtPrice ? price : "",
+      compareAtPrice || price,
+      result.weight ? String(result.weight.kg) : "",
+      size(getMaxLength(dimensions?.width)),
+      size(getMaxLength(dimensions?.depth)),
+      size(getMaxLength(dimensions?.height)),
+      "",
+      "",
+      "",
+      getVariantImageUrl(content, result, options),
+      ...attributeNames.flatMap(name => [name, escapeListValue(result.variation[name] ?? ''), "", "0"]),
+    ];
+  });
+
+  return { headers, rows: [parentRow, ...variationRows] };
+};
+
+export const wooCommerceExporter: ProductExporter = {
+  format: 'woocommerce',
+  label: 'WooCommerce',
+  fileSuffix: 'woocommerce_import',
+  buildTable: buildWooCommerceTable,
+};
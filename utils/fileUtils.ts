@@ -1,7 +1,5 @@
 
-import { VariationResult } from '../types';
-
-declare const JSZip: any;
+import { AspectRatio, GeneratedImage, VariationResult } from '../types';
 
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -12,95 +10,67 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-export const formatDimensions = (dimensionsStr: string | undefined): string => {
-  if (!dimensionsStr) {
-    return '';
-  }
-
-  // Remove "CM", whitespace, and split by '*' or 'x'
-  const parts = dimensionsStr.toUpperCase().replace(/CM/g, '').replace(/\s/g, '').split(/[x*]/);
-
-  if (parts.length !== 3) {
-    return dimensionsStr;
-  }
-
-  const [lengthCm, widthCm, heightCm] = parts.map(Number);
-
-  if (isNaN(lengthCm) || isNaN(widthCm) || isNaN(heightCm) || lengthCm === 0 || widthCm === 0 || heightCm === 0) {
-    return dimensionsStr;
-  }
+// Inline image payload (base64 without the data URL prefix) for AI requests
+export const fileToInlineImage = async (file: File): Promise<{ data: string; mimeType: string }> => {
+  const dataUrl = await fileToBase64(file);
+  return { data: dataUrl.split(',')[1], mimeType: file.type };
+};
 
-  // Helper to convert cm to inch fraction (nearest 1/8)
-  const toFractionalInch = (cm: number): string => {
-    const inches = cm / 2.54;
-    const whole = Math.floor(inches);
-    const remainder = inches - whole;
-    
-    // Round to nearest 1/8
-    const eights = Math.round(remainder * 8);
+// Lowercase, dash-separated file or folder name
+export const toFileSlug = (value: string): string =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
 
-    if (eights === 0) return `${whole}"`;
-    if (eights === 8) return `${whole + 1}"`;
+// Folder holding one variation's files, e.g. "beige-three-seats-240-100-78cm-velvet"
+export const getVariationFolder = (variation: Record<string, string>): string =>
+    toFileSlug(Object.values(variation).join(' ')) || 'variation';
 
-    // Simplify fractions
-    let numerator = eights;
-    let denominator = 8;
-    
-    if (numerator % 4 === 0) {
-        numerator /= 4;
-        denominator /= 4;
-    } else if (numerator % 2 === 0) {
-        numerator /= 2;
-        denominator /= 2;
-    }
+// Folder name used to group exported images by aspect ratio, e.g. "16x9"
+export const getAspectRatioFolder = (ratio: AspectRatio): string => ratio.replace(':', 'x');
 
-    return `${whole} ${numerator}/${denominator}"`;
-  };
+// Export path (without extension) of every image, keyed by variation and image id
+export type ImagePaths = Map<string, string>;
 
-  const lengthIn = toFractionalInch(lengthCm);
-  const widthIn = toFractionalInch(widthCm);
-  const heightIn = toFractionalInch(heightCm);
+const imagePathKey = (result: VariationResult, image: GeneratedImage) => `${result.id}/${image.id}`;
 
-  return `${lengthCm}cm (${lengthIn}) length x ${widthCm}cm (${widthIn}) width x ${heightCm}cm (${heightIn}) height`;
+// First of `base`, `base-2`, `base-3`, ... not in `used`, which it is then added to
+const claimUnique = (base: string, used: Set<string>): string => {
+    let candidate = base;
+    for (let n = 2; used.has(candidate); n++) candidate = `${base}-${n}`;
+    used.add(candidate);
+    return candidate;
 };
 
-const getVariationPrefix = (variation: Record<string, string>): string => {
-    return Object.entries(variation)
-        .map(([key, value]) => value)
-        .join('_')
-        .replace(/[^a-z0-9]/gi, '_').toLowerCase();
-}
-
-export const downloadAllImagesAsZip = async (
-    variationResults: VariationResult[],
-    productName: string
-) => {
-    if (typeof JSZip === 'undefined') {
-        console.error("JSZip is not loaded.");
-        alert("Could not create ZIP file. JSZip library is missing.");
-        return;
-    }
-    const zip = new JSZip();
-
+/**
+ * Paths for one export. Slugs drop accents, punctuation and non-Latin text, so different variations
+ * (or shot titles) can slug the same; later ones get "-2", "-3", ... so no file replaces another.
+ * Every image is included, finished or not, so paths don't shift when a failed shot is retried.
+ */
+export const buildImagePaths = (variationResults: VariationResult[]): ImagePaths => {
+    const paths: ImagePaths = new Map();
+    const usedFolders = new Set<string>();
     variationResults.forEach(result => {
-        const variationPrefix = getVariationPrefix(result.variation);
-        
+        const folder = claimUnique(getVariationFolder(result.variation), usedFolders);
+        const usedFiles = new Set<string>();
         result.images.forEach(image => {
-            const imageTitle = image.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-            const fileName = `${variationPrefix}_${imageTitle}.png`;
-            zip.file(fileName, image.base64, { base64: true });
+            const base = `${folder}/${getAspectRatioFolder(image.sourceAspectRatio)}/${toFileSlug(image.title) || 'image'}`;
+            paths.set(imagePathKey(result, image), claimUnique(base, usedFiles));
         });
     });
-    
-    const safeProductName = productName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-    const zipFileName = `${safeProductName}-all-images`;
+    return paths;
+};
 
-    zip.generateAsync({ type: 'blob' }).then(function (content: Blob) {
-        const link = document.createElement('a');
-        link.href = URL.createObjectURL(content);
-        link.download = `${zipFileName}.zip`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-    });
+const getImagePathStem = (paths: ImagePaths, result: VariationResult, image: GeneratedImage): string => {
+    const stem = paths.get(imagePathKey(result, image));
+    if (!stem) {
+        throw new Error(`"${image.title}" has no export path; build the paths from the content being exported.`);
+    }
+    return stem;
 };
+
+// Path of an image inside the ZIP export; also referenced by the CSV export
+export const getImageFilePath = (paths: ImagePaths, result: VariationResult, image: GeneratedImage): string =>
+    `${getImagePathStem(paths, result, image)}.png`;
+
+// Transparent cutout sits next to its original, e.g. "beige-velvet/1x1/studio-shot-front-view-cutout.png"
+export const getCutoutFilePath = (paths: ImagePaths, result: VariationResult, image: GeneratedImage): string =>
+    `${getImagePathStem(paths, result, image)}-cutout.png`;
@@ -0,0 +1,75 @@
+import { loadImage } from './imageUtils';
+
+// Masks are PNGs the size of the image they belong to: painted pixels (alpha > 0) mark the region to edit.
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return [canvas, ctx];
+};
+
+// Draws an image stretched to the given size and returns its pixels.
+const readPixels = async (base64: string, width: number, height: number, mimeType = 'image/png'): Promise<ImageData> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64}`);
+  const [, ctx] = createCanvas(width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const isMaskEmpty = (mask: ImageData): boolean => {
+  for (let i = 3; i < mask.data.length; i += 4) {
+    if (mask.data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * Converts a painted mask into the black-and-white form sent to the model: white = edit, black = keep.
+ */
+export const toBinaryMask = async (maskBase64: string): Promise<string> => {
+  const img = await loadImage(`data:image/png;base64,${maskBase64}`);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const value = pixels.data[i + 3] > 0 ? 255 : 0;
+    pixels.data[i] = value;
+    pixels.data[i + 1] = value;
+    pixels.data[i + 2] = value;
+    pixels.data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Takes the edited image only inside the mask and the previous image everywhere else.
+ * Unmasked pixels are copied unchanged from `previousBase64`; the mask's soft edge blends the seam.
+ */
+export const compositeWithMask = async (previousBase64: string, editedBase64: string, maskBase64: string): Promise<string> => {
+  const previousImg = await loadImage(`data:image/png;base64,${previousBase64}`);
+  const width = previousImg.naturalWidth;
+  const height = previousImg.naturalHeight;
+
+  const [canvas, ctx] = createCanvas(width, height);
+  ctx.drawImage(previousImg, 0, 0);
+  const output = ctx.getImageData(0, 0, width, height);
+  const edited = await readPixels(editedBase64, width, height);
+  const mask = await readPixels(maskBase64, width, height);
+
+  for (let i = 0; i < output.data.length; i += 4) {
+    const alpha = mask.data[i + 3] / 255;
+    if (alpha === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      output.data[i + c] = Math.round(output.data[i + c] * (1 - alpha) + edited.data[i + c] * alpha);
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
@@ -0,0 +1,159 @@
+import { ImageCategory, QualityIssue } from '../types';
+import { loadImage } from './imageUtils';
+
+// Images are analysed at this size; enough to keep thin lines visible.
+const ANALYSIS_SIZE = 512;
+
+const WHITE_MIN = 245; // Darkest channel of a "pure white" pixel
+const MIN_WHITE_BORDER = 0.85; // Share of the background border that must be white
+const MAX_CORNER_DROP = 8; // Allowed luminance drop from the top-centre to a top corner
+const DARK_LINE_MAX = 50; // Luminance of a dark divider
+const SEAM_STEP = 30; // Luminance jump across a seam
+const SEAM_COVERAGE = 0.9; // Share of the line the jump has to span
+
+interface LumaImage {
+  width: number;
+  height: number;
+  luma: Float32Array;
+  darkest: Uint8Array; // Darkest channel per pixel, for white checks
+}
+
+const readLuma = async (base64: string): Promise<LumaImage> => {
+  const img = await loadImage(`data:image/png;base64,${base64}`);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luma = new Float32Array(width * height);
+  const darkest = new Uint8Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    darkest[i] = Math.min(r, g, b);
+  }
+  return { width, height, luma, darkest };
+};
+
+const meanLuma = (image: LumaImage, x0: number, y0: number, x1: number, y1: number): number => {
+  let sum = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) sum += image.luma[y * image.width + x];
+  }
+  return sum / Math.max(1, (x1 - x0) * (y1 - y0));
+};
+
+// Top and side bands of a studio shot should be pure white; the bottom is skipped because the product stands there.
+const checkBackgroundPurity = (image: LumaImage): QualityIssue | null => {
+  const { width, height, darkest } = image;
+  const band = Math.max(2, Math.round(Math.min(width, height) * 0.04));
+  let white = 0, total = 0;
+  for (let y = 0; y < Math.round(height * 0.7); y++) {
+    for (let x = 0; x < width; x++) {
+      if (y >= band && x >= band && x < width - band) continue;
+      total++;
+      if (darkest[y * width + x] >= WHITE_MIN) white++;
+    }
+  }
+  const share = white / Math.max(1, total);
+  return share < MIN_WHITE_BORDER
+    ? { check: 'backgroundPurity', message: `Background is not pure white: only ${Math.round(share * 100)}% of the border is white.` }
+    : null;
+};
+
+const checkCornerShading = (image: LumaImage): QualityIssue[] => {
+  const { width, height } = image;
+  const size = Math.max(2, Math.round(Math.min(width, height) * 0.08));
+  const centre = meanLuma(image, Math.round(width / 2 - size / 2), 0, Math.round(width / 2 + size / 2), size);
+  const corners: [string, number][] = [
+    ['top-left', meanLuma(image, 0, 0, size, size)],
+    ['top-right', meanLuma(image, width - size, 0, width, size)],
+  ];
+  return corners
+    .filter(([, value]) => centre - value > MAX_CORNER_DROP || value < WHITE_MIN - MAX_CORNER_DROP)
+    .map(([corner]) => ({ check: 'cornerShading', message: `Grey shading in the ${corner} corner.` }));
+};
+
+// A near-black row or column hugging an edge, much darker than the image just inside it
+const checkEdgeDividers = (image: LumaImage): QualityIssue[] => {
+  const { width, height, luma } = image;
+  const depth = Math.max(1, Math.round(Math.min(width, height) * 0.03));
+  const inset = Math.max(2, Math.round(Math.min(width, height) * 0.06));
+  const rowMean = (y: number) => meanLuma(image, 0, y, width, y + 1);
+  const columnMean = (x: number) => meanLuma(image, x, 0, x + 1, height);
+  const isDarkRow = (y: number) => {
+    let dark = 0;
+    for (let x = 0; x < width; x++) if (luma[y * width + x] < DARK_LINE_MAX) dark++;
+    return dark / width >= 0.9;
+  };
+  const isDarkColumn = (x: number) => {
+    let dark = 0;
+    for (let y = 0; y < height; y++) if (luma[y * width + x] < DARK_LINE_MAX) dark++;
+    return dark / height >= 0.9;
+  };
+
+  const issues: QualityIssue[] = [];
+  const edges: [string, number[], (i: number) => boolean, (i: number) => number, number][] = [
+    ['top', Array.from({ length: depth }, (_, i) => i), isDarkRow, rowMean, inset],
+    ['bottom', Array.from({ length: depth }, (_, i) => height - 1 - i), isDarkRow, rowMean, height - 1 - inset],
+    ['left', Array.from({ length: depth }, (_, i) => i), isDarkColumn, columnMean, inset],
+    ['right', Array.from({ length: depth }, (_, i) => width - 1 - i), isDarkColumn, columnMean, width - 1 - inset],
+  ];
+  for (const [edge, lines, isDark, mean, inside] of edges) {
+    if (lines.some(isDark) && mean(inside) > DARK_LINE_MAX + 40) {
+      issues.push({ check: 'edgeDivider', message: `Dark divider line along the ${edge} edge.` });
+    }
+  }
+  return issues;
+};
+
+// A straight luminance jump running across almost the whole image, as left by a collage or split screen
+const checkSplitSeams = (image: LumaImage): QualityIssue[] => {
+  const { width, height, luma } = image;
+  const issues: QualityIssue[] = [];
+
+  for (let x = Math.round(width * 0.15); x < Math.round(width * 0.85); x++) {
+    let jumps = 0;
+    for (let y = 0; y < height; y++) {
+      if (Math.abs(luma[y * width + x - 1] - luma[y * width + x + 1]) > SEAM_STEP) jumps++;
+    }
+    if (jumps / height >= SEAM_COVERAGE) {
+      issues.push({ check: 'splitSeam', message: `Vertical split-screen seam ${Math.round((x / width) * 100)}% from the left.` });
+      break;
+    }
+  }
+  for (let y = Math.round(height * 0.15); y < Math.round(height * 0.85); y++) {
+    let jumps = 0;
+    for (let x = 0; x < width; x++) {
+      if (Math.abs(luma[(y - 1) * width + x] - luma[(y + 1) * width + x]) > SEAM_STEP) jumps++;
+    }
+    if (jumps / width >= SEAM_COVERAGE) {
+      issues.push({ check: 'splitSeam', message: `Horizontal split-screen seam ${Math.round((y / height) * 100)}% from the top.` });
+      break;
+    }
+  }
+  return issues;
+};
+
+/**
+ * Local pixel checks. Studio shots are also checked for a pure white background and grey corners.
+ */
+export const analyzeImagePixels = async (base64: string, category: ImageCategory): Promise<QualityIssue[]> => {
+  const image = await readLuma(base64);
+  const issues: QualityIssue[] = [];
+  if (category === 'studio') {
+    const purity = checkBackgroundPurity(image);
+    if (purity) issues.push(purity);
+    issues.push(...checkCornerShading(image));
+  }
+  issues.push(...checkEdgeDividers(image), ...checkSplitSeams(image));
+  return issues;
+};
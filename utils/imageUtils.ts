@@ -0,0 +1,89 @@
+import { AspectRatio, AspectRatioSelection } from '../types';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16'];
+
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  '1:1': 'Square (PDP)',
+  '16:9': 'Landscape (Hero banner)',
+  '9:16': 'Portrait (Stories)',
+};
+
+// Nothing selected: every shot uses the ratio from its template
+export const DEFAULT_ASPECT_RATIOS: AspectRatioSelection = {
+  studio: [],
+  lifestyle: [],
+};
+
+export const aspectRatioToNumber = (ratio: AspectRatio): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image data.'));
+    img.src = src;
+  });
+};
+
+/**
+ * Center-crops a base64 image to the requested aspect ratio.
+ * Returns the input untouched when it is already within 1% of the target ratio.
+ */
+export const cropToAspectRatio = async (base64: string, ratio: AspectRatio, mimeType = 'image/png'): Promise<string> => {
+  const img = await loadImage(`data:${mimeType};base64,${base64}`);
+  const target = aspectRatioToNumber(ratio);
+  const current = img.naturalWidth / img.naturalHeight;
+
+  if (Math.abs(current - target) / target < 0.01) {
+    return base64;
+  }
+
+  let cropWidth = img.naturalWidth;
+  let cropHeight = img.naturalHeight;
+  if (current > target) {
+    cropWidth = Math.round(img.naturalHeight * target);
+  } else {
+    cropHeight = Math.round(img.naturalWidth / target);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cropWidth;
+  canvas.height = cropHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(
+    img,
+    Math.round((img.naturalWidth - cropWidth) / 2),
+    Math.round((img.naturalHeight - cropHeight) / 2),
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    cropWidth,
+    cropHeight
+  );
+
+  return canvas.toDataURL('image/png').split(',')[1];
+};
+
+/**
+ * Downscales a base64 image so its longest side is at most `maxSize` pixels.
+ */
+export const createThumbnail = async (base64: string, maxSize = 320): Promise<string> => {
+  const img = await loadImage(`data:image/png;base64,${base64}`);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png').split(',')[1];
+};
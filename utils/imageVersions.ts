@@ -0,0 +1,66 @@
+import { GeneratedImage, ImageOperation, ImageVersion } from '../types';
+
+export const createImageVersion = (
+  base64: string,
+  prompt: string,
+  operation: ImageOperation,
+  parentVersionId?: string
+): ImageVersion => ({
+  id: crypto.randomUUID(),
+  base64,
+  prompt,
+  operation,
+  createdAt: Date.now(),
+  parentVersionId,
+});
+
+// Edits keep the generation prompt of the version they were made from, so regenerating
+// an edited image still starts from the original scene description.
+const resolveSourcePrompt = (versions: ImageVersion[], version: ImageVersion): string => {
+  let current: ImageVersion | undefined = version;
+  while (current && current.operation === 'edit') {
+    const parentId: string | undefined = current.parentVersionId;
+    current = versions.find(v => v.id === parentId);
+  }
+  return current ? current.prompt : version.prompt;
+};
+
+const applyVersion = (image: GeneratedImage, versions: ImageVersion[], version: ImageVersion): GeneratedImage => ({
+  ...image,
+  versions,
+  currentVersionId: version.id,
+  base64: version.base64,
+  sourcePrompt: resolveSourcePrompt(versions, version),
+  status: 'done',
+  error: undefined,
+});
+
+export const getCurrentVersion = (image: GeneratedImage): ImageVersion | undefined =>
+  image.versions.find(v => v.id === image.currentVersionId);
+
+// Alt text written for an older version no longer describes what the image shows.
+export const getCurrentAltText = (image: GeneratedImage): string | undefined =>
+  image.altText && image.altText.versionId === image.currentVersionId ? image.altText.text : undefined;
+
+/**
+ * Appends a new version and makes it current. Older versions are never modified,
+ * so a bad edit can always be undone.
+ */
+export const addImageVersion = (
+  image: GeneratedImage,
+  base64: string,
+  prompt: string,
+  operation: ImageOperation,
+  parentVersionId: string | undefined = image.currentVersionId || undefined
+): GeneratedImage => {
+  const version = createImageVersion(base64, prompt, operation, parentVersionId);
+  return applyVersion(image, [...image.versions, version], version);
+};
+
+export const restoreImageVersion = (image: GeneratedImage, versionId: string): GeneratedImage => {
+  const version = image.versions.find(v => v.id === versionId);
+  if (!version) {
+    return image;
+  }
+  return applyVersion(image, image.versions, version);
+};
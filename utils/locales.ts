@@ -0,0 +1,80 @@
+import { GeneratedContent, Locale, MeasurementSystem, ProductDetails } from '../types';
+import { loadSetting, saveSetting } from './settingsStorage';
+
+export interface LocaleInfo {
+  label: string;
+  language: string; // As named in translation prompts
+  currency: string; // ISO 4217 code
+  measurementSystem: MeasurementSystem;
+}
+
+// Copy is always written in this locale first; the others are translations of it.
+export const SOURCE_LOCALE: Locale = 'en-US';
+
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  'en-US': { label: 'United States (English)', language: 'American English', currency: 'USD', measurementSystem: 'imperial' },
+  'fr-CA': { label: 'Canada (French)', language: 'Canadian French', currency: 'CAD', measurementSystem: 'metric' },
+  'de-DE': { label: 'Germany (German)', language: 'German', currency: 'EUR', measurementSystem: 'metric' },
+};
+
+export const TRANSLATION_LOCALES: Locale[] = (Object.keys(LOCALES) as Locale[]).filter(locale => locale !== SOURCE_LOCALE);
+
+export interface LocaleSettings {
+  targetLocales: Locale[]; // Translated during every photoshoot
+  exchangeRates: Record<Locale, number>; // Units of the locale's currency per US dollar
+}
+
+const LOCALE_SETTINGS_KEY = 'locales';
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  targetLocales: [],
+  exchangeRates: { 'en-US': 1, 'fr-CA': 1.37, 'de-DE': 0.92 },
+};
+
+export const loadLocaleSettings = (): LocaleSettings => {
+  const stored = loadSetting<Partial<LocaleSettings>>(LOCALE_SETTINGS_KEY, {});
+  return {
+    targetLocales: (stored.targetLocales ?? DEFAULT_LOCALE_SETTINGS.targetLocales).filter(locale => TRANSLATION_LOCALES.includes(locale)),
+    exchangeRates: { ...DEFAULT_LOCALE_SETTINGS.exchangeRates, ...stored.exchangeRates },
+  };
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings): void => {
+  saveSetting(LOCALE_SETTINGS_KEY, settings);
+};
+
+/**
+ * Reads a price in any market's format: "$1,299.99", "1 299,99 $" or "1.299,99 €".
+ * A trailing comma or dot followed by one or two digits is the decimal separator.
+ */
+export const parsePrice = (price: string): number | null => {
+  const digits = price.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(digits)) return null;
+  const match = digits.match(/^(.*)[.,](\d{1,2})$/);
+  const value = match
+    ? Number(`${match[1].replace(/[.,]/g, '') || '0'}.${match[2]}`)
+    : Number(digits.replace(/[.,]/g, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+export const formatPrice = (value: number, locale: Locale): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: LOCALES[locale].currency }).format(value);
+
+/**
+ * Converts a source-locale (USD) price into the locale's currency. The result is rounded to whole
+ * units and keeps a ".99" ending when the source price has one.
+ */
+export const convertPrice = (price: string, locale: Locale, exchangeRates: LocaleSettings['exchangeRates']): string => {
+  const value = parsePrice(price);
+  if (value === null) return price;
+  const converted = Math.round(value * (exchangeRates[locale] ?? 1));
+  return formatPrice(Math.round(value * 100) % 100 === 99 ? converted - 0.01 : converted, locale);
+};
+
+// The copy for a market, falling back to the source copy when it hasn't been translated
+export const getLocalizedDetails = (content: GeneratedContent, locale: Locale = SOURCE_LOCALE): ProductDetails =>
+  (locale !== SOURCE_LOCALE && content.translations?.[locale]) || content.baseDetails;
+
+// Locales with copy in this project, source first
+export const getAvailableLocales = (content: GeneratedContent): Locale[] =>
+  [SOURCE_LOCALE, ...TRANSLATION_LOCALES.filter(locale => content.translations?.[locale])];
@@ -0,0 +1,88 @@
+import { GeneratedContent, Locale, PriceRounding, PriceRule, PricingSettings, VariationPrice, VariationResult } from '../types';
+import { SOURCE_LOCALE, parsePrice } from './locales';
+import { loadSetting, saveSetting } from './settingsStorage';
+
+const PRICING_SETTING = 'pricing';
+
+// Also used for projects saved before pricing existed, so their exports keep the single suggested price.
+export const DEFAULT_PRICING: PricingSettings = {
+  basis: 'suggested',
+  markupPercent: 150,
+  rules: [],
+  compareAtPercent: 0,
+  rounding: 'none',
+};
+
+export const PRICE_ROUNDING_LABELS: Record<PriceRounding, string> = {
+  none: 'To the cent',
+  '.99': 'Up to .99',
+  '.00': 'To whole units',
+};
+
+// Rules, markup and rounding carry over to new projects; the cost is specific to each product.
+export const loadPricingDefaults = (): PricingSettings => {
+  const { cost: _cost, ...stored } = loadSetting<Partial<PricingSettings>>(PRICING_SETTING, {});
+  return { ...DEFAULT_PRICING, ...stored };
+};
+
+export const savePricingDefaults = (pricing: PricingSettings): void => {
+  const { cost: _cost, ...defaults } = pricing;
+  saveSetting(PRICING_SETTING, defaults);
+};
+
+export const getPricing = (content: GeneratedContent): PricingSettings => content.pricing ?? DEFAULT_PRICING;
+
+// Free (or clamped negative) prices stay at 0 rather than being rounded up to .99
+export const roundPrice = (value: number, rounding: PriceRounding): number => {
+  if (value <= 0) return 0;
+  if (rounding === '.99') return Math.floor(value) + 0.99;
+  if (rounding === '.00') return Math.round(value);
+  return Math.round(value * 100) / 100;
+};
+
+// Starting price in the source currency, before any rules
+export const getBasePrice = (pricing: PricingSettings, suggestedPrice: string): number | null => {
+  if (pricing.basis === 'cost') {
+    return pricing.cost && pricing.cost > 0 ? pricing.cost * (1 + pricing.markupPercent / 100) : null;
+  }
+  return parsePrice(suggestedPrice);
+};
+
+export const ruleMatches = (rule: PriceRule, variation: Record<string, string>): boolean => {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) return false;
+  const attribute = rule.attribute.trim().toLowerCase();
+  return Object.entries(variation).some(([name, attributeValue]) =>
+    (!attribute || name.toLowerCase() === attribute) && attributeValue.trim().toLowerCase() === value);
+};
+
+/**
+ * Prices one variation. Matching percentage rules are added up and applied to the base price
+ * (so +30% and +10% make +40%, not +43%), then fixed amounts are added. The result is converted
+ * with the market's exchange rate and rounded in that currency. A translated market's own suggested
+ * price is already in its currency, so only the fixed amounts are converted then.
+ * Null when there is no base price.
+ */
+export const priceVariation = (
+  content: GeneratedContent,
+  result: VariationResult,
+  locale: Locale = SOURCE_LOCALE,
+  exchangeRates?: Partial<Record<Locale, number>>,
+): VariationPrice | null => {
+  const pricing = getPricing(content);
+  const localized = locale !== SOURCE_LOCALE && pricing.basis === 'suggested' ? content.translations?.[locale] : undefined;
+  const base = getBasePrice(pricing, (localized ?? content.baseDetails).suggestedPrice);
+  if (base === null) return null;
+
+  const matching = pricing.rules.filter(rule => ruleMatches(rule, result.variation));
+  const percent = matching.filter(rule => rule.kind === 'percent').reduce((sum, rule) => sum + rule.amount, 0);
+  const amount = matching.filter(rule => rule.kind === 'amount').reduce((sum, rule) => sum + rule.amount, 0);
+  const rate = locale === SOURCE_LOCALE ? 1 : exchangeRates?.[locale] ?? 1;
+  const baseRate = localized ? 1 : rate;
+  const value = Math.max(0, base * baseRate * (1 + percent / 100) + amount * rate);
+
+  const price = roundPrice(value, pricing.rounding);
+  return pricing.compareAtPercent > 0
+    ? { price, compareAtPrice: roundPrice(value * (1 + pricing.compareAtPercent / 100), pricing.rounding) }
+    : { price };
+};
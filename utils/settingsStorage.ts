@@ -0,0 +1,20 @@
+// Small wrapper around localStorage for app-wide settings that outlive a single project.
+const STORAGE_PREFIX = 'ai-furniture-photoshoot:';
+
+export const loadSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (err) {
+    console.warn(`Could not read setting "${key}"`, err);
+    return fallback;
+  }
+};
+
+export const saveSetting = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (err) {
+    console.warn(`Could not save setting "${key}"`, err);
+  }
+};
@@ -0,0 +1,98 @@
+import { AspectRatioSelection, ShotCounts, ShotTemplate, ShotTemplateLibrary } from '../types';
+import defaultLibrary from '../templates/shotTemplates.json';
+import { ASPECT_RATIOS } from './imageUtils';
+import { loadSetting, saveSetting } from './settingsStorage';
+
+const SHOT_TEMPLATES_SETTING = 'shotTemplates';
+
+export const DEFAULT_SHOT_TEMPLATES = defaultLibrary as ShotTemplateLibrary;
+
+export const TEMPLATE_PLACEHOLDERS = [
+  '{productName}',
+  '{variationDetails}',
+  '{Size}, {Color}, {Material}... (any variation attribute)',
+  '{styleLabel}',
+  '{styleSummary}',
+  '{styleDirection}',
+  '{photographyStyle}',
+  '{userInstructions}',
+  '{preservationInstruction}',
+  '{cleanImageInstruction}',
+];
+
+/**
+ * Replaces {placeholders} with values. Unknown placeholders are dropped so no braces leak into prompts.
+ */
+export const fillTemplate = (text: string, values: Record<string, string | undefined>): string => {
+  return text
+    .replace(/\{([^{}]+)\}/g, (_, key: string) => values[key.trim()] ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+};
+
+// Template uses styles when its text references any of the style placeholders
+export const usesCreativeStyle = (template: ShotTemplate): boolean =>
+  /\{style(Label|Summary|Direction)\}/.test(`${template.title} ${template.description} ${template.prompt}`);
+
+/**
+ * Checks an imported library and returns a list of problems (empty when valid).
+ */
+export const validateShotTemplates = (library: unknown): string[] => {
+  const errors: string[] = [];
+  const candidate = library as Partial<ShotTemplateLibrary> | null;
+  if (!candidate || typeof candidate !== 'object') {
+    return ['The file does not contain a template library object.'];
+  }
+  const instructions = candidate.instructions;
+  if (!instructions || typeof instructions.photographyStyle !== 'string' || typeof instructions.preservationInstruction !== 'string' || typeof instructions.cleanImageInstruction !== 'string') {
+    errors.push('"instructions" must contain photographyStyle, preservationInstruction and cleanImageInstruction strings.');
+  }
+  if (!Array.isArray(candidate.templates) || candidate.templates.length === 0) {
+    errors.push('"templates" must be a non-empty array.');
+    return errors;
+  }
+  const ids = new Set<string>();
+  candidate.templates.forEach((template, i) => {
+    const label = template?.id ? `Template "${template.id}"` : `Template #${i + 1}`;
+    if (!template?.id || ids.has(template.id)) errors.push(`${label} needs a unique id.`);
+    ids.add(template?.id);
+    if (!template?.title) errors.push(`${label} needs a title.`);
+    if (!template?.prompt) errors.push(`${label} needs a prompt.`);
+    if (template?.category !== 'studio' && template?.category !== 'lifestyle') errors.push(`${label} has an invalid category.`);
+    if (!ASPECT_RATIOS.includes(template?.aspectRatio)) errors.push(`${label} has an invalid aspect ratio.`);
+    if (!['always', 'singleVariation', 'multipleVariations', 'manual'].includes(template?.when)) errors.push(`${label} has an invalid "when" value.`);
+  });
+  return errors;
+};
+
+export const loadShotTemplates = (): ShotTemplateLibrary => {
+  const stored = loadSetting<ShotTemplateLibrary | null>(SHOT_TEMPLATES_SETTING, null);
+  return stored && validateShotTemplates(stored).length === 0 ? stored : DEFAULT_SHOT_TEMPLATES;
+};
+
+export const saveShotTemplates = (library: ShotTemplateLibrary): void => {
+  saveSetting(SHOT_TEMPLATES_SETTING, library);
+};
+
+/**
+ * Default shot list: one shot per template whose `when` rule matches the product, for every variation.
+ */
+export const buildDefaultShotList = (templates: ShotTemplate[], variationCount: number): ShotCounts[] => {
+  const usage = variationCount === 1 ? 'singleVariation' : 'multipleVariations';
+  const counts: ShotCounts = Object.fromEntries(templates.map(t => [t.id, t.when === 'always' || t.when === usage ? 1 : 0]));
+  return Array.from({ length: variationCount }, () => ({ ...counts }));
+};
+
+// Images one variation produces: each shot runs once per style (if styled) and once per selected ratio.
+export const countVariationImages = (
+  templates: ShotTemplate[],
+  counts: ShotCounts,
+  styleCount: number,
+  aspectRatios: AspectRatioSelection,
+): number => {
+  return templates.reduce((total, template) => {
+    const styles = usesCreativeStyle(template) ? styleCount : 1;
+    const ratios = Math.max(1, aspectRatios[template.category].length);
+    return total + (counts[template.id] ?? 0) * styles * ratios;
+  }, 0);
+};
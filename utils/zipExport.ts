@@ -0,0 +1,166 @@
+import { GeneratedContent, ProductDetails, VariationResult } from '../types';
+import { getCurrentCutout } from './cutout';
+import { DerivativeSpec, DerivativeSettings, createDerivatives, getDerivativeFilePath, getDerivativeSpecs } from './derivatives';
+import { ExportFormat, ExportOptions, buildProductCsv, getCsvFileName } from './exporters';
+import { getProductHandle, getVariationLabel } from './exporters/csv';
+import { ImagePaths, buildImagePaths, getCutoutFilePath, getImageFilePath } from './fileUtils';
+import { getCurrentAltText } from './imageVersions';
+import { SOURCE_LOCALE, getAvailableLocales, getLocalizedDetails } from './locales';
+
+declare const JSZip: any;
+
+// Parts of the project the user can include in the ZIP
+export interface ZipParts {
+  images: boolean;
+  cutouts: boolean;
+  derivatives: boolean;
+  manifest: boolean;
+  copy: boolean;
+  csv: boolean;
+}
+
+export const DEFAULT_ZIP_PARTS: ZipParts = {
+  images: true,
+  cutouts: true,
+  derivatives: true,
+  manifest: true,
+  copy: true,
+  csv: true,
+};
+
+export const ZIP_PART_LABELS: Record<keyof ZipParts, string> = {
+  images: 'Images (a folder per variation)',
+  cutouts: 'Transparent cutouts',
+  derivatives: 'Web-optimized JPEG/WebP sizes',
+  manifest: 'manifest.json',
+  copy: 'Product copy (Markdown + JSON, per market)',
+  csv: 'Product CSV (per market)',
+};
+
+export interface ZipExportOptions extends ExportOptions {
+  parts: ZipParts;
+  csvFormat: ExportFormat;
+  derivatives: DerivativeSettings;
+}
+
+/**
+ * The variations with their copy, then one entry per finished image: where it is in the ZIP and how it was made.
+ */
+export const buildManifest = (
+  content: GeneratedContent,
+  parts: Pick<ZipParts, 'cutouts'> = DEFAULT_ZIP_PARTS,
+  derivatives: DerivativeSpec[] = [],
+  paths: ImagePaths = buildImagePaths(content.variationResults),
+) => ({
+  product: {
+    name: content.baseDetails.names[0] || content.specSheet.productName,
+    modelNo: content.specSheet.modelNo,
+    handle: getProductHandle(content),
+  },
+  exportedAt: new Date().toISOString(),
+  variations: content.variationResults.map(result => ({
+    variation: result.variation,
+    blurb: result.copy?.blurb,
+    seoTitle: result.copy?.seoTitle,
+  })),
+  images: content.variationResults.flatMap(result => result.images
+    .filter(image => image.base64)
+    .map(image => {
+      const cutout = parts.cutouts ? getCurrentCutout(image) : undefined;
+      return {
+        file: getImageFilePath(paths, result, image),
+        cutoutFile: cutout ? getCutoutFilePath(paths, result, image) : undefined,
+        derivatives: derivatives.length > 0
+          ? derivatives.map(spec => ({ ...spec, file: getDerivativeFilePath(paths, result, image, spec) }))
+          : undefined,
+        variation: result.variation,
+        title: image.title,
+        description: image.description,
+        altText: getCurrentAltText(image),
+        category: image.category,
+        aspectRatio: image.sourceAspectRatio,
+        creativeStyle: image.creativeStyle,
+        prompt: image.sourcePrompt,
+      };
+    })),
+});
+
+// Variation copy is only written in the source language, so translated copy is built without `variationResults`.
+export const buildCopyMarkdown = (details: ProductDetails, variationResults: VariationResult[] = []): string => {
+  const section = (heading: string, body: string) => body.trim() ? `## ${heading}\n\n${body.trim()}\n` : '';
+  const variationCopy = variationResults
+    .flatMap(({ variation, copy }) => copy ? [`### ${getVariationLabel(variation)}\n\n${copy.blurb}\n\n**SEO title:** ${copy.seoTitle}`] : [])
+    .join('\n\n');
+  return [
+    `# ${details.names[0] ?? ''}\n`,
+    details.names.length > 1 ? section('Alternative names', details.names.slice(1).map(name => `- ${name}`).join('\n')) : '',
+    section('Description', details.description),
+    section('SEO', `**Title:** ${details.seoTitle}\n\n**Description:** ${details.seoDescription}`),
+    section('Tags', details.tags.join(', ')),
+    section('Social media caption', details.socialMediaCaption),
+    section('Suggested price', details.suggestedPrice),
+    section('Measurements', details.measurements),
+    section('Shipping', details.shipping),
+    section('Care instructions', details.careInstructions),
+    section('Variations', variationCopy),
+  ].filter(Boolean).join('\n');
+};
+
+export const downloadProjectZip = async (content: GeneratedContent, options: ZipExportOptions) => {
+  if (typeof JSZip === 'undefined') {
+    console.error("JSZip is not loaded.");
+    alert("Could not create ZIP file. JSZip library is missing.");
+    return;
+  }
+  const { parts } = options;
+  const { linkTo } = options.derivatives;
+  // The CSV may link to a derivative, so that one is always packed even when the full set isn't.
+  const derivativeSpecs = parts.derivatives ? getDerivativeSpecs(options.derivatives) : linkTo ? [linkTo] : [];
+  const zip = new JSZip();
+  // Shared by the files, the manifest and the CSV image URLs so they all agree
+  const paths = buildImagePaths(content.variationResults);
+
+  for (const result of content.variationResults) {
+    // Skip shots that are still generating or failed
+    for (const image of result.images.filter(image => image.base64)) {
+      if (parts.images) {
+        zip.file(getImageFilePath(paths, result, image), image.base64, { base64: true });
+      }
+      const cutout = getCurrentCutout(image);
+      if (parts.cutouts && cutout) {
+        zip.file(getCutoutFilePath(paths, result, image), cutout.base64, { base64: true });
+      }
+      // One image at a time keeps memory bounded on large shoots
+      if (derivativeSpecs.length > 0) {
+        const files = await createDerivatives(image.base64, derivativeSpecs, options.derivatives.quality);
+        files.forEach(file => zip.file(getDerivativeFilePath(paths, result, image, file), file.blob));
+      }
+    }
+  }
+
+  if (parts.manifest) {
+    zip.file('manifest.json', JSON.stringify(buildManifest(content, parts, derivativeSpecs, paths), null, 2));
+  }
+  // Source copy at the top of copy/, translations in a folder per locale, e.g. copy/de-DE/product.md
+  for (const locale of getAvailableLocales(content)) {
+    const details = getLocalizedDetails(content, locale);
+    const folder = locale === SOURCE_LOCALE ? 'copy' : `copy/${locale}`;
+    if (parts.copy) {
+      zip.file(`${folder}/product.md`, buildCopyMarkdown(details, locale === SOURCE_LOCALE ? content.variationResults : []));
+      zip.file(`${folder}/product.json`, JSON.stringify(details, null, 2));
+    }
+    if (parts.csv) {
+      zip.file(getCsvFileName(options.csvFormat, content, locale), buildProductCsv(options.csvFormat, content, { ...options, imageDerivative: linkTo, locale, imagePaths: paths }));
+    }
+  }
+  const handle = getProductHandle(content);
+
+  const blob: Blob = await zip.generateAsync({ type: 'blob' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = `${handle}-photoshoot.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};